@@ -0,0 +1,10 @@
+-- PulseAPI Database Schema
+-- D1 Migration: Per-endpoint probe scheduling
+
+-- ============================================
+-- ENDPOINTS TABLE
+-- ============================================
+-- Next time the scheduler should probe the endpoint (ISO 8601, NULL = due now)
+ALTER TABLE endpoints ADD COLUMN next_probe_at TEXT;
+
+CREATE INDEX idx_endpoints_next_probe_at ON endpoints(is_active, next_probe_at);
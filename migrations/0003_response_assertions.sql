@@ -0,0 +1,14 @@
+-- PulseAPI Database Schema
+-- D1 Migration: Response body assertions
+
+-- ============================================
+-- ENDPOINTS TABLE
+-- ============================================
+-- Assertions evaluated against each response body
+ALTER TABLE endpoints ADD COLUMN assertions TEXT; -- JSON array
+
+-- ============================================
+-- PROBE RESULTS TABLE
+-- ============================================
+-- Structured probe details (assertion outcomes, ...)
+ALTER TABLE probe_results ADD COLUMN details TEXT; -- JSON object
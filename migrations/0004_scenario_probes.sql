@@ -0,0 +1,12 @@
+-- PulseAPI Database Schema
+-- D1 Migration: Endpoint types and multi-step scenario probes
+
+-- ============================================
+-- ENDPOINTS TABLE
+-- ============================================
+-- Probe type ('http', 'scenario'); validated by the API so new types
+-- don't require rebuilding the table
+ALTER TABLE endpoints ADD COLUMN type TEXT NOT NULL DEFAULT 'http';
+
+-- Type-specific probe configuration (e.g. scenario steps)
+ALTER TABLE endpoints ADD COLUMN probe_config TEXT; -- JSON object
@@ -0,0 +1,14 @@
+-- PulseAPI Database Schema
+-- D1 Migration: Probe authentication and error categories
+
+-- ============================================
+-- ENDPOINTS TABLE
+-- ============================================
+-- Probe authentication (e.g. OAuth2 client credentials)
+ALTER TABLE endpoints ADD COLUMN auth_config TEXT; -- JSON object
+
+-- ============================================
+-- PROBE RESULTS TABLE
+-- ============================================
+-- Why a probe failed ('timeout', 'network', 'http_status', 'assertion', 'auth_token', ...)
+ALTER TABLE probe_results ADD COLUMN error_category TEXT;
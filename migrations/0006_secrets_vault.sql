@@ -0,0 +1,21 @@
+-- PulseAPI Database Schema
+-- D1 Migration: Per-user secrets vault
+
+-- ============================================
+-- SECRETS TABLE
+-- ============================================
+-- Values are AES-GCM encrypted with the SECRETS_ENCRYPTION_KEY Worker secret
+-- and referenced from endpoints as {{secret.NAME}}
+CREATE TABLE IF NOT EXISTS secrets (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    name TEXT NOT NULL,
+    ciphertext TEXT NOT NULL, -- base64
+    iv TEXT NOT NULL, -- base64, 12 bytes
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+    UNIQUE (user_id, name),
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+CREATE INDEX idx_secrets_user_id ON secrets(user_id);
@@ -0,0 +1,14 @@
+-- PulseAPI Database Schema
+-- D1 Migration: Confirmation retries before recording a failure
+
+-- ============================================
+-- ENDPOINTS TABLE
+-- ============================================
+-- Retry policy: { "retries": 0-3, "delayMs": 0-10000, "retryOn": "timeout" | "any" }
+ALTER TABLE endpoints ADD COLUMN retry_policy TEXT; -- JSON object
+
+-- ============================================
+-- PROBE RESULTS TABLE
+-- ============================================
+-- Number of attempts made before settling on the stored status
+ALTER TABLE probe_results ADD COLUMN attempt_count INTEGER NOT NULL DEFAULT 1;
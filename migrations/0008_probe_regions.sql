@@ -0,0 +1,13 @@
+-- PulseAPI Database Schema
+-- D1 Migration: Multi-region probing
+
+-- ============================================
+-- ENDPOINTS TABLE
+-- ============================================
+-- Regions to probe from (NULL = every region in PROBE_REGIONS)
+ALTER TABLE endpoints ADD COLUMN regions TEXT; -- JSON array
+
+-- ============================================
+-- PROBE RESULTS TABLE
+-- ============================================
+CREATE INDEX idx_probe_results_endpoint_region_timestamp ON probe_results(endpoint_id, region, timestamp);
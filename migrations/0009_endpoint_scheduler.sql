@@ -0,0 +1,8 @@
+-- PulseAPI Database Schema
+-- D1 Migration: Alarm-driven endpoint scheduler
+
+-- ============================================
+-- ENDPOINTS TABLE
+-- ============================================
+-- Sub-minute probe interval (pro plan, 30s minimum); NULL uses probe_interval_minutes
+ALTER TABLE endpoints ADD COLUMN probe_interval_seconds INTEGER;
@@ -0,0 +1,29 @@
+-- PulseAPI Database Schema
+-- D1 Migration: Change notifications (DNS record and content changes)
+
+PRAGMA defer_foreign_keys = true;
+
+-- ============================================
+-- NOTIFICATION LOGS TABLE
+-- ============================================
+-- SQLite can't alter a CHECK constraint, so the table is rebuilt to allow 'change'
+CREATE TABLE notification_logs_new (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    incident_id TEXT,
+    type TEXT NOT NULL CHECK(type IN ('incident_alert', 'recovery', 'degradation', 'change', 'test')),
+    sent_at TEXT NOT NULL DEFAULT (datetime('now')),
+    success INTEGER DEFAULT 1,
+    error_message TEXT,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY (incident_id) REFERENCES incidents(id) ON DELETE SET NULL
+);
+
+INSERT INTO notification_logs_new (id, user_id, incident_id, type, sent_at, success, error_message)
+SELECT id, user_id, incident_id, type, sent_at, success, error_message FROM notification_logs;
+
+DROP TABLE notification_logs;
+ALTER TABLE notification_logs_new RENAME TO notification_logs;
+
+CREATE INDEX idx_notification_logs_user_id ON notification_logs(user_id);
+CREATE INDEX idx_notification_logs_sent_at ON notification_logs(sent_at);
@@ -0,0 +1,12 @@
+-- PulseAPI Database Schema
+-- D1 Migration: Heartbeat (push-based) monitors
+
+-- ============================================
+-- ENDPOINTS TABLE
+-- ============================================
+-- Secret token in the ping URL (POST /v1/heartbeats/:token)
+ALTER TABLE endpoints ADD COLUMN heartbeat_token TEXT;
+-- Time of the most recent `success` ping (lateness is measured from it)
+ALTER TABLE endpoints ADD COLUMN last_ping_at TEXT;
+
+CREATE UNIQUE INDEX idx_endpoints_heartbeat_token ON endpoints(heartbeat_token);
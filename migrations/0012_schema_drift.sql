@@ -0,0 +1,55 @@
+-- PulseAPI Database Schema
+-- D1 Migration: JSON Schema contract validation and schema-drift incidents
+
+PRAGMA defer_foreign_keys = true;
+
+-- ============================================
+-- ENDPOINTS TABLE
+-- ============================================
+-- JSON Schema response bodies are validated against (pasted or from OpenAPI)
+ALTER TABLE endpoints ADD COLUMN response_schema TEXT; -- JSON
+
+-- ============================================
+-- INCIDENTS TABLE
+-- ============================================
+-- SQLite can't alter a CHECK constraint, so the table is rebuilt to allow
+-- 'schema_drift'. Dropping it would cascade to incident_timeline and null
+-- notification_logs.incident_id, so both are backed up and restored.
+CREATE TABLE incident_timeline_backup AS SELECT * FROM incident_timeline;
+CREATE TABLE notification_logs_backup AS
+    SELECT id, incident_id FROM notification_logs WHERE incident_id IS NOT NULL;
+
+CREATE TABLE incidents_new (
+    id TEXT PRIMARY KEY,
+    endpoint_id TEXT NOT NULL,
+    type TEXT NOT NULL CHECK(type IN ('latency_spike', 'high_error_rate', 'timeout', 'complete_outage', 'schema_drift')),
+    severity TEXT NOT NULL CHECK(severity IN ('minor', 'major', 'critical')),
+    status TEXT DEFAULT 'active' CHECK(status IN ('active', 'investigating', 'identified', 'monitoring', 'resolved')),
+    started_at TEXT NOT NULL DEFAULT (datetime('now')),
+    resolved_at TEXT,
+    title TEXT NOT NULL,
+    description TEXT,
+    affected_regions TEXT, -- JSON array
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+    FOREIGN KEY (endpoint_id) REFERENCES endpoints(id) ON DELETE CASCADE
+);
+
+INSERT INTO incidents_new SELECT * FROM incidents;
+
+DROP TABLE incidents;
+ALTER TABLE incidents_new RENAME TO incidents;
+
+CREATE INDEX idx_incidents_endpoint_id ON incidents(endpoint_id);
+CREATE INDEX idx_incidents_status ON incidents(status);
+CREATE INDEX idx_incidents_started_at ON incidents(started_at);
+
+INSERT OR IGNORE INTO incident_timeline SELECT * FROM incident_timeline_backup;
+UPDATE notification_logs
+SET incident_id = (
+    SELECT b.incident_id FROM notification_logs_backup b WHERE b.id = notification_logs.id
+)
+WHERE id IN (SELECT id FROM notification_logs_backup);
+
+DROP TABLE incident_timeline_backup;
+DROP TABLE notification_logs_backup;
@@ -0,0 +1,23 @@
+-- PulseAPI Database Schema
+-- D1 Migration: Response content-change detection
+
+-- ============================================
+-- ENDPOINTS TABLE
+-- ============================================
+-- Content-change detection settings (NULL = disabled)
+ALTER TABLE endpoints ADD COLUMN content_change TEXT; -- JSON
+
+-- ============================================
+-- CONTENT CHANGES TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS content_changes (
+    id TEXT PRIMARY KEY,
+    endpoint_id TEXT NOT NULL,
+    detected_at TEXT NOT NULL DEFAULT (datetime('now')),
+    old_hash TEXT NOT NULL,
+    new_hash TEXT NOT NULL,
+    diff_summary TEXT NOT NULL, -- JSON
+    FOREIGN KEY (endpoint_id) REFERENCES endpoints(id) ON DELETE CASCADE
+);
+
+CREATE INDEX idx_content_changes_endpoint_detected ON content_changes(endpoint_id, detected_at);
@@ -0,0 +1,10 @@
+-- PulseAPI Database Schema
+-- D1 Migration: Response header rules
+
+-- ============================================
+-- ENDPOINTS TABLE
+-- ============================================
+-- Rules checked against every response's headers
+ALTER TABLE endpoints ADD COLUMN header_rules TEXT; -- JSON array
+-- Also apply the standard security-header rule set
+ALTER TABLE endpoints ADD COLUMN security_headers INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,8 @@
+-- PulseAPI Database Schema
+-- D1 Migration: Redirect policy
+
+-- ============================================
+-- ENDPOINTS TABLE
+-- ============================================
+-- How HTTP probes handle redirects; NULL keeps following them
+ALTER TABLE endpoints ADD COLUMN redirect_policy TEXT; -- JSON object
@@ -12,8 +12,25 @@ import {
   incidentsRoutes,
   probesRoutes,
   usersRoutes,
+  secretsRoutes,
+  heartbeatsRoutes,
 } from "./routes/api";
 import { runProbeEngine, cleanupOldProbes } from "./services/probeEngine";
+import {
+  enqueueDueEndpoints,
+  handleDeadProbeBatch,
+  handleProbeBatch,
+  DEAD_LETTER_QUEUE,
+  type ProbeJob,
+} from "./services/probeQueue";
+import { adoptDueEndpoints } from "./services/endpointScheduler";
+import { checkHeartbeats } from "./services/heartbeatMonitor";
+import { recalculateAllBaselines } from "./services/baselineService";
+import { requireAuth } from "./services/firebaseAuth";
+
+// Durable Object classes must be exported from the Worker entry point
+export { RegionalProber } from "./services/regionalExecutor";
+export { EndpointScheduler } from "./services/endpointScheduler";
 
 // Environment bindings
 export interface Env {
@@ -21,10 +38,33 @@ export interface Env {
   STATUS_KV: KVNamespace;
   ENVIRONMENT: string;
   API_VERSION: string;
+  // Comma-separated probe regions (Durable Object location hints)
+  PROBE_REGIONS?: string;
+  // Per-region probe executors; probes run in-process when unbound
+  REGIONAL_PROBER?: DurableObjectNamespace;
+  // Probe engine tuning (see probeEngine defaults)
+  PROBE_CONCURRENCY?: string;
+  PROBE_TIME_BUDGET_MS?: string;
+  // DNS-over-HTTPS resolver for DNS probes (JSON API)
+  DOH_RESOLVER_URL?: string;
+  // Comma-separated internal hosts, *.suffixes, IPs and IPv4 CIDRs that
+  // probes may reach despite the URL safety checks
+  PROBE_HOST_ALLOWLIST?: string;
+  // Per-endpoint alarm schedulers; when bound they own every probe schedule
+  ENDPOINT_SCHEDULER?: DurableObjectNamespace;
+  // Probe job queue; when bound without ENDPOINT_SCHEDULER, cron only
+  // enqueues and the consumer probes (see wrangler.toml)
+  PROBE_QUEUE?: Queue<ProbeJob>;
   // APNs secrets (set via wrangler secret)
   APNS_KEY_ID?: string;
   APNS_TEAM_ID?: string;
   APNS_PRIVATE_KEY?: string;
+  // Base64 256-bit AES key for the secrets vault (set via wrangler secret)
+  SECRETS_ENCRYPTION_KEY?: string;
+  // Firebase project whose ID tokens authenticate API calls
+  FIREBASE_PROJECT_ID?: string;
+  // JWKS for Firebase ID tokens (defaults to Google's securetoken keys)
+  FIREBASE_JWKS_URL?: string;
 }
 
 // Create Hono app
@@ -37,7 +77,7 @@ app.use(
   cors({
     origin: "*",
     allowMethods: ["GET", "POST", "PUT", "DELETE", "PATCH"],
-    allowHeaders: ["Content-Type", "Authorization", "X-User-ID"],
+    allowHeaders: ["Content-Type", "Authorization"],
   }),
 );
 
@@ -65,13 +105,12 @@ app.route("/v1/endpoints", endpointsRoutes);
 app.route("/v1/incidents", incidentsRoutes);
 app.route("/v1/probes", probesRoutes);
 app.route("/v1/users", usersRoutes);
+app.route("/v1/secrets", secretsRoutes);
+app.route("/v1/heartbeats", heartbeatsRoutes);
 
 // Dashboard summary endpoint
-app.get("/v1/dashboard", async (c) => {
-  const userId = c.req.header("X-User-ID");
-  if (!userId) {
-    return c.json({ success: false, error: "User ID required" }, 401);
-  }
+app.get("/v1/dashboard", requireAuth, async (c) => {
+  const userId = c.get("userId");
 
   try {
     // Get all endpoints for user
@@ -170,13 +209,38 @@ export default {
       `Cron triggered at ${new Date(event.scheduledTime).toISOString()}`,
     );
 
-    // Run probe engine
-    ctx.waitUntil(runProbeEngine(env));
+    // Dispatch due endpoints: schedulers, else the queue, else in-process
+    const tickTime = new Date(event.scheduledTime);
+    if (env.ENDPOINT_SCHEDULER) {
+      if (env.PROBE_QUEUE) {
+        console.warn(
+          "PROBE_QUEUE is bound but unused: ENDPOINT_SCHEDULER owns probing",
+        );
+      }
+      // Schedulers probe on their own alarms; cron only starts missing ones
+      ctx.waitUntil(adoptDueEndpoints(env, tickTime));
+    } else if (env.PROBE_QUEUE) {
+      ctx.waitUntil(enqueueDueEndpoints(env, env.PROBE_QUEUE, tickTime));
+    } else {
+      ctx.waitUntil(runProbeEngine(env, tickTime));
+    }
+
+    // Open incidents for heartbeat endpoints whose ping is late
+    ctx.waitUntil(checkHeartbeats(env, tickTime));
 
-    // Cleanup old data (run once daily at midnight)
-    const hour = new Date(event.scheduledTime).getUTCHours();
-    if (hour === 0) {
+    // Cleanup old data and refresh latency baselines (once daily at midnight)
+    if (tickTime.getUTCHours() === 0 && tickTime.getUTCMinutes() === 0) {
       ctx.waitUntil(cleanupOldProbes(env, 30));
+      ctx.waitUntil(recalculateAllBaselines(env));
+    }
+  },
+
+  // Queue consumer for probe jobs and their dead-letter queue
+  async queue(batch: MessageBatch<ProbeJob>, env: Env) {
+    if (batch.queue === DEAD_LETTER_QUEUE) {
+      await handleDeadProbeBatch(batch);
+    } else {
+      await handleProbeBatch(batch, env);
     }
   },
 };
@@ -5,6 +5,16 @@
 // HTTP Methods
 export type HTTPMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE" | "HEAD";
 
+// Endpoint (probe) Types
+export type EndpointType =
+  | "http"
+  | "scenario"
+  | "graphql"
+  | "websocket"
+  | "tcp"
+  | "dns"
+  | "heartbeat";
+
 // Endpoint Status
 export type EndpointStatus = "healthy" | "degraded" | "down" | "unknown";
 
@@ -13,21 +23,260 @@ export interface Endpoint {
   id: string;
   user_id: string;
   name: string;
+  type: EndpointType;
   url: string;
   method: HTTPMethod;
   headers?: string | Record<string, string>;
   body?: string;
   probe_interval_minutes: number;
+  probe_interval_seconds?: number | null; // Sub-minute interval (alarm scheduler)
   timeout_seconds: number;
   expected_status_codes: string | number[];
+  assertions?: string | ProbeAssertion[]; // JSON array
+  response_schema?: string | Record<string, unknown> | null; // JSON Schema
+  content_change?: string | ContentChangeConfig | null; // JSON, NULL = off
+  header_rules?: string | HeaderRule[] | null; // JSON array
+  security_headers?: number; // 1 = apply the security-header preset
+  probe_config?:
+    | string
+    | ScenarioConfig
+    | GraphQLConfig
+    | WebSocketConfig
+    | TCPConfig
+    | DNSConfig
+    | HeartbeatConfig
+    | null; // JSON, depends on type
+  auth_config?: string | EndpointAuthConfig | null; // JSON, HTTP probes only
+  retry_policy?: string | RetryPolicy | null; // JSON
+  redirect_policy?: string | RedirectPolicy | null; // JSON, NULL = follow
+  regions?: string | string[] | null; // JSON array, NULL = all regions
   is_active: number; // SQLite uses 0/1 for boolean
+  next_probe_at?: string | null; // NULL = due on the next tick
+  heartbeat_token?: string | null; // Heartbeat endpoints only
+  last_ping_at?: string | null; // Last `success` ping (heartbeats)
   created_at: string;
   updated_at: string;
 }
 
+// Probe Authentication
+export interface OAuth2ClientCredentialsConfig {
+  type: "oauth2_client_credentials";
+  tokenUrl: string;
+  clientId: string;
+  clientSecret: string;
+  scope?: string;
+  audience?: string;
+}
+
+export type EndpointAuthConfig = OAuth2ClientCredentialsConfig;
+
+// Confirmation retries before a failure is recorded
+export interface RetryPolicy {
+  retries: number; // Extra attempts after the first (0-3)
+  delayMs: number; // Wait between attempts
+  retryOn: "timeout" | "any";
+}
+
+// How HTTP probes handle redirects: follow them, check the redirect response
+// itself (so it fails unless a 3xx is expected), or follow up to maxHops
+export type RedirectMode = "follow" | "manual" | "limit";
+
+export interface RedirectPolicy {
+  mode: RedirectMode;
+  maxHops?: number; // Required for "limit"
+  finalUrl?: string; // Exact URL the chain must end at
+  finalUrlPattern?: string; // Or a regex it must match
+}
+
+// One redirect followed during a probe
+export interface RedirectHop {
+  url: string;
+  status: number;
+  location: string;
+}
+
+// Response Assertions
+export type JSONPathOperator =
+  | "equals"
+  | "not_equals"
+  | "exists"
+  | "not_exists";
+export type NumericOperator = "eq" | "gt" | "gte" | "lt" | "lte";
+
+export type ProbeAssertion =
+  | {
+      type: "json_path";
+      path: string;
+      operator: JSONPathOperator;
+      value?: unknown;
+    }
+  | { type: "regex"; pattern: string; flags?: string }
+  | { type: "contains"; value: string }
+  | { type: "not_contains"; value: string }
+  | { type: "numeric"; path: string; operator: NumericOperator; value: number };
+
+// Outcome of a single assertion
+export interface AssertionResult {
+  assertion: string; // Human-readable description of the check
+  passed: boolean;
+  actual?: unknown;
+  message?: string;
+}
+
+// Scenario Probes
+// Pull a value from a step response into a variable for later steps
+export interface VariableExtraction {
+  name: string;
+  from: "json" | "header";
+  path: string; // JSON path for "json", header name for "header"
+}
+
+// A single request in a scenario; url/headers/body may use {{vars.NAME}}
+export interface ScenarioStep {
+  name: string;
+  url: string;
+  method?: HTTPMethod;
+  headers?: Record<string, string>;
+  body?: string;
+  expectedStatusCodes?: number[];
+  assertions?: ProbeAssertion[];
+  extract?: VariableExtraction[];
+}
+
+export interface ScenarioConfig {
+  steps: ScenarioStep[];
+}
+
+// GraphQL probe request; the endpoint URL is the GraphQL endpoint
+export interface GraphQLConfig {
+  query: string;
+  variables?: Record<string, unknown>;
+  operationName?: string;
+  dataPath?: string; // e.g. $.data.viewer; null here fails the probe
+}
+
+// WebSocket probe; without a message or pattern only the handshake is checked
+export interface WebSocketConfig {
+  message?: string; // Sent once the connection is open
+  expectPattern?: string; // Regex the reply must match
+}
+
+// TCP probe against a tcp://host:port URL
+export interface TCPConfig {
+  tls?: "off" | "on" | "starttls"; // starttls upgrades after the exchange
+  payload?: string; // Sent once connected, e.g. "PING\r\n"; line by line for starttls
+  expectPrefix?: string; // Banner or response must start with this
+}
+
+export type DNSRecordType = "A" | "AAAA" | "CNAME" | "MX" | "TXT";
+
+// DNS probe resolved over DNS-over-HTTPS
+export interface DNSConfig {
+  name: string;
+  recordType: DNSRecordType;
+  resolverUrl?: string; // Defaults to DOH_RESOLVER_URL
+  expectedValues?: string[]; // Each must be among the answers
+  expectedPatterns?: string[]; // Every answer must match one of these
+}
+
+// Heartbeat monitor: the job pings us at least every periodSeconds
+export interface HeartbeatConfig {
+  periodSeconds: number;
+  graceSeconds: number; // Extra slack before a ping counts as late
+}
+
+export type HeartbeatState = "start" | "success" | "fail";
+
+// Response header rules (header names are case-insensitive)
+export type HeaderRule =
+  | { header: string; check: "exists" | "absent" }
+  | { header: string; check: "equals"; value: string }
+  | { header: string; check: "matches"; pattern: string; flags?: string };
+
+// Content-change detection: volatile JSON fields are removed before hashing
+export interface ContentChangeConfig {
+  ignorePaths?: string[]; // JSON paths, e.g. $.meta.generatedAt
+  ignoreKeys?: string[]; // Key names removed at any depth, e.g. timestamp
+}
+
+// Compact description of how a response body changed
+export interface ContentDiffSummary {
+  added: number;
+  removed: number;
+  changed: number;
+  lines: string[]; // e.g. ~ $.version: "1.2" -> "1.3"
+}
+
+// Recorded content change
+export interface ContentChange {
+  id: string;
+  endpoint_id: string;
+  detected_at: string;
+  old_hash: string;
+  new_hash: string;
+  diff_summary: string | ContentDiffSummary; // JSON
+}
+
+// A response body that breaks the endpoint's JSON Schema
+export interface SchemaViolation {
+  path: string; // e.g. $.items[0].id
+  message: string;
+}
+
+// Outcome of a single scenario step
+export interface StepResult {
+  name: string;
+  status: ProbeResultStatus;
+  statusCode?: number;
+  latencyMs?: number;
+  errorMessage?: string;
+  errorCategory?: ProbeErrorCategory;
+  assertions?: AssertionResult[];
+}
+
 // Probe Result Status
 export type ProbeResultStatus = "success" | "error" | "timeout";
 
+// Why a probe failed; "auth_token", "secret" and "blocked" (target refused
+// by the URL safety checks) failures are not the monitored API's fault
+export type ProbeErrorCategory =
+  | "timeout"
+  | "network"
+  | "http_status"
+  | "assertion"
+  | "auth_token"
+  | "secret"
+  | "graphql"
+  | "dns"
+  | "redirect"
+  | "blocked";
+
+// A single attempt within one probe run
+export interface ProbeAttempt {
+  status: ProbeResultStatus;
+  latencyMs?: number;
+  statusCode?: number;
+  errorMessage?: string;
+}
+
+// Structured probe details (stored as JSON)
+export interface ProbeResultDetails {
+  attempts?: ProbeAttempt[];
+  assertions?: AssertionResult[];
+  steps?: StepResult[];
+  failedStep?: string;
+  graphqlErrors?: string[];
+  timings?: { handshakeMs: number; tlsMs?: number; roundTripMs?: number };
+  dnsRecords?: string[];
+  heartbeat?: { state: HeartbeatState; durationMs?: number };
+  schemaViolations?: SchemaViolation[]; // Set whenever the schema was checked
+  contentHash?: string; // SHA-256 of the normalized body
+  headerChecks?: AssertionResult[];
+  redirects?: RedirectHop[]; // Set whenever a redirect was followed
+  finalUrl?: string;
+  finalUrlCheck?: AssertionResult;
+}
+
 // Probe Result
 export interface ProbeResult {
   id: string;
@@ -37,7 +286,19 @@ export interface ProbeResult {
   latency_ms?: number;
   status_code?: number;
   error_message?: string;
+  error_category?: ProbeErrorCategory;
+  attempt_count?: number;
+  details?: ProbeResultDetails;
   region: string;
+  content_snapshot?: string; // Normalized body for change detection (not stored)
+  response_preview?: ResponsePreview; // On-demand probes only (not stored)
+}
+
+// Raw response returned by on-demand probes
+export interface ResponsePreview {
+  headers: Record<string, string>;
+  body: string;
+  bodyTruncated: boolean;
 }
 
 // Baseline
@@ -58,7 +319,8 @@ export type IncidentType =
   | "latency_spike"
   | "high_error_rate"
   | "timeout"
-  | "complete_outage";
+  | "complete_outage"
+  | "schema_drift";
 export type IncidentSeverity = "minor" | "major" | "critical";
 export type IncidentStatus =
   | "active"
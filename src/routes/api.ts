@@ -4,25 +4,384 @@
  * Organized by resource: endpoints, incidents, probes, users
  */
 
-import { Hono } from "hono";
+import { Hono, type Context } from "hono";
 import type { Env } from "../index";
+import type { Endpoint, ProbeResult } from "../models/types";
+import {
+  generateHeartbeatToken,
+  HEARTBEAT_STATES,
+  recordHeartbeat,
+} from "../services/heartbeatMonitor";
+import { clearContentSnapshot } from "../services/contentChange";
+import { invalidateAccessToken } from "../services/oauthTokenService";
+import {
+  createSecret,
+  deleteSecret,
+  findMissingSecrets,
+  findSecretReferences,
+  listSecrets,
+  rotateSecret,
+  SECRET_NAME_PATTERN,
+} from "../services/secretVault";
+import {
+  findPlainCredentials,
+  hasRedactedValues,
+  redactBody,
+  redactHeaders,
+  REDACTED_VALUE,
+  replaceWithReferences,
+  vaultSecretNames,
+} from "../services/credentialRedaction";
+import { syncEndpointScheduler } from "../services/endpointScheduler";
+import { probeEndpoint } from "../services/probeEngine";
+import { RUN_OUTCOME_RESULTS_FILTER } from "../services/degradationDetector";
+import { consumeRateLimit } from "../services/rateLimiter";
+import { requireAuth, type AuthEnv } from "../services/firebaseAuth";
+import { requireOwnership } from "../services/ownershipGuard";
+import {
+  findMissingReplacementFields,
+  normalizeLegacyInput,
+  parseEndpointInput,
+  type EndpointInput,
+  type FieldError,
+} from "../services/endpointValidation";
 
 // Create routes
-export const endpointsRoutes = new Hono<{ Bindings: Env }>();
-export const incidentsRoutes = new Hono<{ Bindings: Env }>();
-export const probesRoutes = new Hono<{ Bindings: Env }>();
-export const usersRoutes = new Hono<{ Bindings: Env }>();
+export const endpointsRoutes = new Hono<AuthEnv>();
+export const incidentsRoutes = new Hono<AuthEnv>();
+export const probesRoutes = new Hono<AuthEnv>();
+export const usersRoutes = new Hono<AuthEnv>();
+export const secretsRoutes = new Hono<AuthEnv>();
+export const heartbeatsRoutes = new Hono<{ Bindings: Env }>();
+
+// Everything except heartbeat pings (authenticated by their token) requires
+// a Firebase ID token
+for (const routes of [
+  endpointsRoutes,
+  incidentsRoutes,
+  probesRoutes,
+  usersRoutes,
+  secretsRoutes,
+]) {
+  routes.use("*", requireAuth);
+}
+
+// Routes addressing a single endpoint or incident by id 404 unless the
+// caller owns it
+const ownsEndpoint = requireOwnership("endpoint", "id");
+const ownsIncident = requireOwnership("incident", "id");
+const ownsProbedEndpoint = requireOwnership("endpoint", "endpointId");
 
 // ============================================
 // ENDPOINTS ROUTES
 // ============================================
 
+// Respond with field-level validation problems
+function invalidRequest(c: Context<AuthEnv>, errors: FieldError[]) {
+  return c.json({ success: false, error: "Invalid request body", errors }, 422);
+}
+
+// Read a JSON body; malformed JSON is reported by validation like any
+// other invalid body
+async function readJSONBody(c: Context<AuthEnv>): Promise<unknown> {
+  return c.req.json().catch(() => null);
+}
+
+// Whether a request body is a JSON object (its fields are validated later)
+function isEndpointBody(body: unknown): body is Partial<EndpointInput> {
+  return !!body && typeof body === "object" && !Array.isArray(body);
+}
+
+// Scenario endpoints default their URL to the first step's URL, DNS
+// endpoints to dns://<record name> and heartbeats (never fetched) to a marker
+function resolveEndpointUrl(input: EndpointInput): string {
+  if (input.type === "dns") {
+    return input.url || `dns://${input.probeConfig!.name}`;
+  }
+  if (input.type === "heartbeat") {
+    return input.url || "heartbeat://push";
+  }
+  return input.url || input.probeConfig?.steps?.[0]?.url;
+}
+
+// Hide inline client secrets; {{secret.NAME}} references are shown as-is
+function redactAuthConfig(authConfig: string | null): string | null {
+  if (!authConfig) return null;
+  const config = JSON.parse(authConfig);
+  if (findSecretReferences(config.clientSecret).length === 0) {
+    config.clientSecret = REDACTED_VALUE;
+  }
+  return JSON.stringify(config);
+}
+
+// Hide plain-text credential headers; {{secret.NAME}} references are shown
+// as-is
+function redactStoredHeaders(headers: string | null): string | null {
+  if (!headers) return null;
+  return JSON.stringify(redactHeaders(JSON.parse(headers)));
+}
+
+// Parse the headers stored on an endpoint
+function parseStoredHeaders(endpoint: Endpoint): Record<string, string> | null {
+  return typeof endpoint.headers === "string"
+    ? JSON.parse(endpoint.headers)
+    : (endpoint.headers ?? null);
+}
+
+// Clients echo back the redacted placeholders; keep the stored values.
+// Returns the fields that have no stored value to keep.
+function restoreRedactedValues(
+  body: unknown,
+  existing: Endpoint,
+): FieldError[] {
+  if (!isEndpointBody(body)) return [];
+  const errors: FieldError[] = [];
+
+  const authConfig = body.authConfig;
+  if (authConfig?.clientSecret === REDACTED_VALUE) {
+    const existingAuth =
+      typeof existing.auth_config === "string"
+        ? JSON.parse(existing.auth_config)
+        : existing.auth_config;
+    if (existingAuth?.clientSecret) {
+      authConfig.clientSecret = existingAuth.clientSecret;
+    } else {
+      errors.push({ field: "authConfig.clientSecret", message: "is required" });
+    }
+  }
+
+  if (body.headers && typeof body.headers === "object") {
+    const existingHeaders = Object.entries(parseStoredHeaders(existing) ?? {});
+    for (const [name, value] of Object.entries(body.headers)) {
+      if (value !== REDACTED_VALUE) continue;
+      const stored = existingHeaders.find(
+        ([existingName]) => existingName.toLowerCase() === name.toLowerCase(),
+      );
+      if (stored) {
+        body.headers[name] = stored[1];
+      } else {
+        errors.push({ field: `headers.${name}`, message: "is required" });
+      }
+    }
+  }
+
+  // A redacted body is only restored when sent back unchanged
+  if (typeof body.body === "string" && hasRedactedValues(body.body)) {
+    if (existing.body && body.body === redactBody(existing.body)) {
+      body.body = existing.body;
+    } else {
+      errors.push({
+        field: "body",
+        message:
+          "contains redacted credentials; send the values or {{secret.NAME}} references",
+      });
+    }
+  }
+
+  return errors;
+}
+
+// Find {{secret.NAME}} references in a body that the user hasn't created
+function findUnknownSecrets(
+  db: D1Database,
+  userId: string,
+  input: EndpointInput,
+): Promise<string[]> {
+  return findMissingSecrets(
+    db,
+    userId,
+    findSecretReferences([
+      input.url,
+      input.headers,
+      input.body,
+      input.probeConfig,
+      input.authConfig,
+    ]),
+  );
+}
+
+// Respond 400 when a body references secrets the user hasn't created
+async function checkUnknownSecrets(
+  c: Context<AuthEnv>,
+  userId: string,
+  input: EndpointInput,
+) {
+  const unknownSecrets = await findUnknownSecrets(c.env.DB, userId, input);
+  if (unknownSecrets.length === 0) return null;
+  return c.json(
+    {
+      success: false,
+      error: `Unknown secret(s): ${unknownSecrets.join(", ")}`,
+    },
+    400,
+  );
+}
+
+// Column values written to an endpoint row
+type EndpointColumns = Partial<Record<keyof Endpoint, string | number | null>>;
+
+// Map a validated body to the writable endpoint columns; omitted fields
+// get their defaults
+function toEndpointColumns(input: EndpointInput): EndpointColumns {
+  return {
+    name: input.name,
+    type: input.type || "http",
+    url: resolveEndpointUrl(input),
+    method: input.method || "GET",
+    headers: input.headers ? JSON.stringify(input.headers) : null,
+    body: input.body || null,
+    probe_config: input.probeConfig ? JSON.stringify(input.probeConfig) : null,
+    auth_config: input.authConfig ? JSON.stringify(input.authConfig) : null,
+    retry_policy: input.retryPolicy ? JSON.stringify(input.retryPolicy) : null,
+    redirect_policy: input.redirectPolicy
+      ? JSON.stringify(input.redirectPolicy)
+      : null,
+    regions: input.regions ? JSON.stringify(input.regions) : null,
+    probe_interval_minutes: input.probeIntervalMinutes ?? 5,
+    probe_interval_seconds: input.probeIntervalSeconds ?? null,
+    timeout_seconds: input.timeoutSeconds ?? 10,
+    expected_status_codes: JSON.stringify(
+      input.expectedStatusCodes ?? [200, 201, 204],
+    ),
+    assertions: input.assertions ? JSON.stringify(input.assertions) : null,
+    response_schema:
+      input.responseSchema != null
+        ? JSON.stringify(input.responseSchema)
+        : null,
+    content_change: input.contentChange
+      ? JSON.stringify(input.contentChange)
+      : null,
+    header_rules: input.headerRules?.length
+      ? JSON.stringify(input.headerRules)
+      : null,
+    security_headers: input.securityHeaders ? 1 : 0,
+  };
+}
+
+// Map an endpoint row back to a request body (the base a PATCH applies to)
+function toEndpointInput(endpoint: Endpoint): EndpointInput {
+  const parse = (value: unknown) =>
+    typeof value === "string" ? JSON.parse(value) : (value ?? null);
+
+  return {
+    name: endpoint.name,
+    type: endpoint.type,
+    url: endpoint.url,
+    method: endpoint.method,
+    headers: parse(endpoint.headers),
+    body: endpoint.body ?? null,
+    probeConfig: parse(endpoint.probe_config),
+    authConfig: parse(endpoint.auth_config),
+    retryPolicy: parse(endpoint.retry_policy),
+    redirectPolicy: parse(endpoint.redirect_policy),
+    regions: parse(endpoint.regions),
+    probeIntervalMinutes: endpoint.probe_interval_minutes,
+    probeIntervalSeconds: endpoint.probe_interval_seconds ?? null,
+    timeoutSeconds: endpoint.timeout_seconds,
+    expectedStatusCodes: parse(endpoint.expected_status_codes),
+    assertions: parse(endpoint.assertions),
+    responseSchema: parse(endpoint.response_schema),
+    contentChange: parse(endpoint.content_change),
+    headerRules: parse(endpoint.header_rules),
+    securityHeaders: Boolean(endpoint.security_headers),
+    isActive: Boolean(endpoint.is_active),
+  };
+}
+
+// Write the columns that differ from the stored row and refresh whatever
+// depends on them; returns the updated row
+async function saveEndpointChanges(
+  env: Env,
+  existing: Endpoint,
+  input: EndpointInput,
+): Promise<Endpoint> {
+  const columns: EndpointColumns = {
+    ...toEndpointColumns(input),
+    // Only an explicit isActive changes whether the endpoint is probed
+    is_active:
+      input.isActive === undefined
+        ? Number(existing.is_active)
+        : input.isActive
+          ? 1
+          : 0,
+  };
+  const changed = (Object.keys(columns) as (keyof Endpoint)[]).filter(
+    (column) => columns[column] !== existing[column],
+  );
+  if (changed.length === 0) return existing;
+
+  const now = new Date().toISOString();
+  await env.DB.prepare(
+    `
+    UPDATE endpoints
+    SET ${changed.map((column) => `${column} = ?`).join(", ")}, next_probe_at = NULL, updated_at = ?
+    WHERE id = ?
+  `,
+  )
+    .bind(...changed.map((column) => columns[column]), now, existing.id)
+    .run();
+
+  // Endpoints switched to heartbeat need a ping token
+  if (columns.type === "heartbeat" && !existing.heartbeat_token) {
+    await env.DB.prepare(
+      "UPDATE endpoints SET heartbeat_token = ? WHERE id = ? AND heartbeat_token IS NULL",
+    )
+      .bind(generateHeartbeatToken(), existing.id)
+      .run();
+  }
+
+  // Auth settings may have changed; fetch a fresh token on the next probe
+  await invalidateAccessToken(env.STATUS_KV, existing.id);
+  // Ignored fields may have changed; start a new content baseline
+  await clearContentSnapshot(env.STATUS_KV, existing.id);
+  await syncEndpointScheduler(
+    env,
+    existing.id,
+    columns.is_active ? "start" : "pause",
+  );
+
+  const updated = await env.DB.prepare("SELECT * FROM endpoints WHERE id = ?")
+    .bind(existing.id)
+    .first<Endpoint>();
+  return updated!;
+}
+
+// Transform an endpoint row to camelCase for iOS
+function formatEndpoint(endpoint: any) {
+  return {
+    id: endpoint.id,
+    userId: endpoint.user_id,
+    name: endpoint.name,
+    type: endpoint.type,
+    url: endpoint.url,
+    method: endpoint.method,
+    headers: redactStoredHeaders(endpoint.headers ?? null),
+    body: endpoint.body ? redactBody(endpoint.body) : endpoint.body,
+    probeConfig: endpoint.probe_config ?? null,
+    authConfig: redactAuthConfig(endpoint.auth_config ?? null),
+    retryPolicy: endpoint.retry_policy ?? null,
+    redirectPolicy: endpoint.redirect_policy ?? null,
+    regions: endpoint.regions ?? null,
+    probeIntervalMinutes: endpoint.probe_interval_minutes,
+    probeIntervalSeconds: endpoint.probe_interval_seconds ?? null,
+    timeoutSeconds: endpoint.timeout_seconds,
+    expectedStatusCodes: endpoint.expected_status_codes,
+    assertions: endpoint.assertions ?? null,
+    responseSchema: endpoint.response_schema ?? null,
+    contentChange: endpoint.content_change ?? null,
+    headerRules: endpoint.header_rules ?? null,
+    securityHeaders: Boolean(endpoint.security_headers),
+    heartbeatToken: endpoint.heartbeat_token ?? null,
+    lastPingAt: endpoint.last_ping_at ?? null,
+    isActive: endpoint.is_active,
+    createdAt: endpoint.created_at,
+    updatedAt: endpoint.updated_at,
+  };
+}
+
 // List all endpoints for a user
 endpointsRoutes.get("/", async (c) => {
-  const userId = c.req.header("X-User-ID");
-  if (!userId) {
-    return c.json({ success: false, error: "User ID required" }, 401);
-  }
+  const userId = c.get("userId");
 
   try {
     const { results } = await c.env.DB.prepare(
@@ -37,7 +396,7 @@ endpointsRoutes.get("/", async (c) => {
         // Get latest probe result
         const latestProbe = await c.env.DB.prepare(
           `SELECT status, latency_ms FROM probe_results 
-           WHERE endpoint_id = ? 
+           WHERE endpoint_id = ? AND ${RUN_OUTCOME_RESULTS_FILTER}
            ORDER BY timestamp DESC LIMIT 1`,
         )
           .bind(endpoint.id)
@@ -49,7 +408,8 @@ endpointsRoutes.get("/", async (c) => {
             COUNT(*) as total,
             SUM(CASE WHEN status = 'success' THEN 1 ELSE 0 END) as success_count
            FROM probe_results
-           WHERE endpoint_id = ? AND timestamp >= datetime('now', '-1 hour')`,
+           WHERE endpoint_id = ? AND datetime(timestamp) >= datetime('now', '-1 hour')
+             AND ${RUN_OUTCOME_RESULTS_FILTER}`,
         )
           .bind(endpoint.id)
           .first<any>();
@@ -68,19 +428,7 @@ endpointsRoutes.get("/", async (c) => {
         }
 
         return {
-          id: endpoint.id,
-          userId: endpoint.user_id,
-          name: endpoint.name,
-          url: endpoint.url,
-          method: endpoint.method,
-          headers: endpoint.headers,
-          body: endpoint.body,
-          probeIntervalMinutes: endpoint.probe_interval_minutes,
-          timeoutSeconds: endpoint.timeout_seconds,
-          expectedStatusCodes: endpoint.expected_status_codes,
-          isActive: endpoint.is_active,
-          createdAt: endpoint.created_at,
-          updatedAt: endpoint.updated_at,
+          ...formatEndpoint(endpoint),
           // Health data
           status,
           latencyMs: latestProbe?.latency_ms || null,
@@ -100,9 +448,9 @@ endpointsRoutes.get("/", async (c) => {
 });
 
 // Get single endpoint with health summary
-endpointsRoutes.get("/:id", async (c) => {
+endpointsRoutes.get("/:id", ownsEndpoint, async (c) => {
   const endpointId = c.req.param("id");
-  const userId = c.req.header("X-User-ID");
+  const userId = c.get("userId");
 
   try {
     const endpoint = await c.env.DB.prepare(
@@ -115,24 +463,9 @@ endpointsRoutes.get("/:id", async (c) => {
       return c.json({ success: false, error: "Endpoint not found" }, 404);
     }
 
-    // Transform to camelCase for iOS
     return c.json({
       success: true,
-      data: {
-        id: endpoint.id,
-        userId: endpoint.user_id,
-        name: endpoint.name,
-        url: endpoint.url,
-        method: endpoint.method,
-        headers: endpoint.headers,
-        body: endpoint.body,
-        probeIntervalMinutes: endpoint.probe_interval_minutes,
-        timeoutSeconds: endpoint.timeout_seconds,
-        expectedStatusCodes: endpoint.expected_status_codes,
-        isActive: endpoint.is_active,
-        createdAt: endpoint.created_at,
-        updatedAt: endpoint.updated_at,
-      },
+      data: formatEndpoint(endpoint),
     });
   } catch (error) {
     console.error("Error fetching endpoint:", error);
@@ -141,22 +474,10 @@ endpointsRoutes.get("/:id", async (c) => {
 });
 
 // Get endpoint health summary
-endpointsRoutes.get("/:id/health", async (c) => {
+endpointsRoutes.get("/:id/health", ownsEndpoint, async (c) => {
   const endpointId = c.req.param("id");
-  const userId = c.req.header("X-User-ID");
 
   try {
-    // Verify endpoint exists and belongs to user
-    const endpoint = await c.env.DB.prepare(
-      "SELECT id FROM endpoints WHERE id = ? AND user_id = ?",
-    )
-      .bind(endpointId, userId)
-      .first();
-
-    if (!endpoint) {
-      return c.json({ success: false, error: "Endpoint not found" }, 404);
-    }
-
     // Get recent probe stats (last 24 hours)
     const stats = await c.env.DB.prepare(
       `
@@ -167,7 +488,8 @@ endpointsRoutes.get("/:id/health", async (c) => {
         MAX(timestamp) as last_probe_at
       FROM probe_results
       WHERE endpoint_id = ?
-        AND timestamp >= datetime('now', '-24 hours')
+        AND datetime(timestamp) >= datetime('now', '-24 hours')
+        AND ${RUN_OUTCOME_RESULTS_FILTER}
     `,
     )
       .bind(endpointId)
@@ -181,7 +503,8 @@ endpointsRoutes.get("/:id/health", async (c) => {
         SUM(CASE WHEN status = 'success' THEN 1 ELSE 0 END) as success
       FROM probe_results
       WHERE endpoint_id = ?
-        AND timestamp >= datetime('now', '-30 days')
+        AND datetime(timestamp) >= datetime('now', '-30 days')
+        AND ${RUN_OUTCOME_RESULTS_FILTER}
     `,
     )
       .bind(endpointId)
@@ -251,18 +574,66 @@ endpointsRoutes.get("/:id/health", async (c) => {
   }
 });
 
+// List detected content changes for an endpoint, newest first
+endpointsRoutes.get("/:id/changes", ownsEndpoint, async (c) => {
+  const endpointId = c.req.param("id");
+  const limit = parseInt(c.req.query("limit") || "20");
+
+  try {
+    const { results } = await c.env.DB.prepare(
+      `
+      SELECT * FROM content_changes
+      WHERE endpoint_id = ?
+      ORDER BY detected_at DESC
+      LIMIT ?
+    `,
+    )
+      .bind(endpointId, limit)
+      .all<any>();
+
+    // Transform to camelCase for iOS
+    const changes = results.map((change: any) => ({
+      id: change.id,
+      endpointId: change.endpoint_id,
+      detectedAt: change.detected_at,
+      oldHash: change.old_hash,
+      newHash: change.new_hash,
+      diff: JSON.parse(change.diff_summary),
+    }));
+
+    return c.json({
+      success: true,
+      data: changes,
+      meta: { total: changes.length },
+    });
+  } catch (error) {
+    console.error("Error fetching content changes:", error);
+    return c.json(
+      { success: false, error: "Failed to fetch content changes" },
+      500,
+    );
+  }
+});
+
 // Create new endpoint
 endpointsRoutes.post("/", async (c) => {
-  const userId = c.req.header("X-User-ID");
-  if (!userId) {
-    return c.json({ success: false, error: "User ID required" }, 401);
-  }
+  const userId = c.get("userId");
 
   try {
-    const body = await c.req.json();
     const id = crypto.randomUUID();
     const now = new Date().toISOString();
 
+    const { input, errors } = await parseEndpointInput(
+      await readJSONBody(c),
+      c.env,
+    );
+    if (!input) {
+      return invalidRequest(c, errors);
+    }
+
+    const secretsError = await checkUnknownSecrets(c, userId, input);
+    if (secretsError) return secretsError;
+
     // Auto-create user if not exists (for Firebase Auth users)
     const existingUser = await c.env.DB.prepare(
       "SELECT id FROM users WHERE id = ?",
@@ -274,113 +645,148 @@ endpointsRoutes.post("/", async (c) => {
       await c.env.DB.prepare(
         `INSERT INTO users (id, email, created_at, updated_at) VALUES (?, ?, ?, ?)`,
       )
-        .bind(userId, `${userId}@firebase.user`, now, now)
+        .bind(userId, c.get("userEmail") ?? `${userId}@firebase.user`, now, now)
         .run();
     }
 
+    const endpoint = {
+      id,
+      user_id: userId,
+      ...toEndpointColumns(input),
+      heartbeat_token:
+        input.type === "heartbeat" ? generateHeartbeatToken() : null,
+      is_active: input.isActive === false ? 0 : 1,
+      created_at: now,
+      updated_at: now,
+    };
+    const columns = Object.keys(endpoint);
+
     await c.env.DB.prepare(
       `
-      INSERT INTO endpoints (id, user_id, name, url, method, headers, body, probe_interval_minutes, timeout_seconds, expected_status_codes, is_active, created_at, updated_at)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 1, ?, ?)
+      INSERT INTO endpoints (${columns.join(", ")})
+      VALUES (${columns.map(() => "?").join(", ")})
     `,
     )
-      .bind(
-        id,
-        userId,
-        body.name,
-        body.url,
-        body.method || "GET",
-        body.headers ? JSON.stringify(body.headers) : null,
-        body.body || null,
-        body.probeIntervalMinutes || 5,
-        body.timeoutSeconds || 10,
-        JSON.stringify(body.expectedStatusCodes || [200, 201, 204]),
-        now,
-        now,
-      )
+      .bind(...Object.values(endpoint))
       .run();
 
-    return c.json(
-      {
-        success: true,
-        data: {
-          id,
-          userId,
-          name: body.name,
-          url: body.url,
-          method: body.method || "GET",
-          headers: body.headers ? JSON.stringify(body.headers) : null,
-          body: body.body || null,
-          probeIntervalMinutes: body.probeIntervalMinutes || 5,
-          timeoutSeconds: body.timeoutSeconds || 10,
-          expectedStatusCodes: JSON.stringify(
-            body.expectedStatusCodes || [200, 201, 204],
-          ),
-          isActive: 1,
-          createdAt: now,
-          updatedAt: now,
-        },
-      },
-      201,
+    await syncEndpointScheduler(
+      c.env,
+      id,
+      endpoint.is_active ? "start" : "pause",
     );
+
+    return c.json({ success: true, data: formatEndpoint(endpoint) }, 201);
   } catch (error) {
     console.error("Error creating endpoint:", error);
     return c.json({ success: false, error: "Failed to create endpoint" }, 500);
   }
 });
 
-// Update endpoint
-endpointsRoutes.put("/:id", async (c) => {
+// Replace an endpoint's configuration. Every field except isActive must be
+// sent (null clears an optional one); PATCH changes only some.
+endpointsRoutes.put("/:id", ownsEndpoint, async (c) => {
   const endpointId = c.req.param("id");
-  const userId = c.req.header("X-User-ID");
+  const userId = c.get("userId");
 
   try {
-    const body = await c.req.json();
-    const now = new Date().toISOString();
-
-    const result = await c.env.DB.prepare(
-      `
-      UPDATE endpoints 
-      SET name = ?, url = ?, method = ?, headers = ?, body = ?, 
-          probe_interval_minutes = ?, timeout_seconds = ?, 
-          expected_status_codes = ?, is_active = ?, updated_at = ?
-      WHERE id = ? AND user_id = ?
-    `,
+    const existing = await c.env.DB.prepare(
+      "SELECT * FROM endpoints WHERE id = ? AND user_id = ?",
     )
-      .bind(
-        body.name,
-        body.url,
-        body.method || "GET",
-        body.headers ? JSON.stringify(body.headers) : null,
-        body.body || null,
-        body.probeIntervalMinutes || 5,
-        body.timeoutSeconds || 10,
-        JSON.stringify(body.expectedStatusCodes || [200, 201, 204]),
-        body.isActive ? 1 : 0,
-        now,
-        endpointId,
-        userId,
-      )
-      .run();
+      .bind(endpointId, userId)
+      .first<Endpoint>();
 
-    if (result.meta.changes === 0) {
+    if (!existing) {
       return c.json({ success: false, error: "Endpoint not found" }, 404);
     }
 
-    return c.json({
-      success: true,
-      data: { id: endpointId, ...body, updatedAt: now },
-    });
+    const body = await readJSONBody(c);
+    const missing = findMissingReplacementFields(body);
+    if (missing.length > 0) {
+      return invalidRequest(c, missing);
+    }
+    const redactedErrors = restoreRedactedValues(body, existing);
+    if (redactedErrors.length > 0) {
+      return invalidRequest(c, redactedErrors);
+    }
+
+    const { input, errors } = await parseEndpointInput(body, c.env);
+    if (!input) {
+      return invalidRequest(c, errors);
+    }
+
+    const secretsError = await checkUnknownSecrets(c, userId, input);
+    if (secretsError) return secretsError;
+
+    const updated = await saveEndpointChanges(c.env, existing, input);
+
+    return c.json({ success: true, data: formatEndpoint(updated) });
   } catch (error) {
     console.error("Error updating endpoint:", error);
     return c.json({ success: false, error: "Failed to update endpoint" }, 500);
   }
 });
 
+// Update only the fields sent
+endpointsRoutes.patch("/:id", ownsEndpoint, async (c) => {
+  const endpointId = c.req.param("id");
+  const userId = c.get("userId");
+
+  try {
+    const existing = await c.env.DB.prepare(
+      "SELECT * FROM endpoints WHERE id = ? AND user_id = ?",
+    )
+      .bind(endpointId, userId)
+      .first<Endpoint>();
+
+    if (!existing) {
+      return c.json({ success: false, error: "Endpoint not found" }, 404);
+    }
+
+    const patch = await readJSONBody(c);
+    if (!isEndpointBody(patch)) {
+      return invalidRequest(c, [
+        { field: "body", message: "must be a JSON object" },
+      ]);
+    }
+    const redactedErrors = restoreRedactedValues(patch, existing);
+    if (redactedErrors.length > 0) {
+      return invalidRequest(c, redactedErrors);
+    }
+
+    // URLs that were derived from the config are derived again, and values
+    // stored before the current bounds are brought within them
+    const base = normalizeLegacyInput(toEndpointInput(existing));
+    if (base.url === resolveEndpointUrl({ ...base, url: undefined })) {
+      delete base.url;
+    }
+
+    // The merged endpoint is validated as a whole so cross-field rules
+    // (e.g. probeConfig against type) still hold
+    const { input, errors } = await parseEndpointInput(
+      { ...base, ...patch },
+      c.env,
+    );
+    if (!input) {
+      return invalidRequest(c, errors);
+    }
+
+    const secretsError = await checkUnknownSecrets(c, userId, input);
+    if (secretsError) return secretsError;
+
+    const updated = await saveEndpointChanges(c.env, existing, input);
+
+    return c.json({ success: true, data: formatEndpoint(updated) });
+  } catch (error) {
+    console.error("Error patching endpoint:", error);
+    return c.json({ success: false, error: "Failed to update endpoint" }, 500);
+  }
+});
+
 // Delete endpoint
-endpointsRoutes.delete("/:id", async (c) => {
+endpointsRoutes.delete("/:id", ownsEndpoint, async (c) => {
   const endpointId = c.req.param("id");
-  const userId = c.req.header("X-User-ID");
+  const userId = c.get("userId");
 
   try {
     const result = await c.env.DB.prepare(
@@ -395,6 +801,9 @@ endpointsRoutes.delete("/:id", async (c) => {
 
     // Clear KV cache
     await c.env.STATUS_KV.delete(`health:${endpointId}`);
+    await invalidateAccessToken(c.env.STATUS_KV, endpointId);
+    await clearContentSnapshot(c.env.STATUS_KV, endpointId);
+    await syncEndpointScheduler(c.env, endpointId, "delete");
 
     return c.json({ success: true, data: { deleted: true } });
   } catch (error) {
@@ -403,13 +812,335 @@ endpointsRoutes.delete("/:id", async (c) => {
   }
 });
 
+// Pause or resume probing without changing the endpoint's configuration
+for (const action of ["pause", "resume"] as const) {
+  endpointsRoutes.post(`/:id/${action}`, ownsEndpoint, async (c) => {
+    const endpointId = c.req.param("id");
+    const userId = c.get("userId");
+
+    try {
+      const isActive = action === "resume";
+      const result = await c.env.DB.prepare(
+        `
+        UPDATE endpoints
+        SET is_active = ?, next_probe_at = NULL, updated_at = ?
+        WHERE id = ? AND user_id = ?
+      `,
+      )
+        .bind(isActive ? 1 : 0, new Date().toISOString(), endpointId, userId)
+        .run();
+
+      if (result.meta.changes === 0) {
+        return c.json({ success: false, error: "Endpoint not found" }, 404);
+      }
+
+      await syncEndpointScheduler(
+        c.env,
+        endpointId,
+        isActive ? "start" : "pause",
+      );
+
+      return c.json({ success: true, data: { id: endpointId, isActive } });
+    } catch (error) {
+      console.error(`Error trying to ${action} endpoint:`, error);
+      return c.json(
+        { success: false, error: `Failed to ${action} endpoint` },
+        500,
+      );
+    }
+  });
+}
+
+// Move plain-text credentials in an endpoint's headers and JSON body into
+// the secrets vault, replacing them with {{secret.NAME}} references
+endpointsRoutes.post("/:id/vault-credentials", ownsEndpoint, async (c) => {
+  const endpointId = c.req.param("id");
+  const userId = c.get("userId");
+  if (!c.env.SECRETS_ENCRYPTION_KEY) {
+    return c.json(
+      { success: false, error: "Secrets vault not configured" },
+      503,
+    );
+  }
+
+  try {
+    const existing = await c.env.DB.prepare(
+      "SELECT * FROM endpoints WHERE id = ? AND user_id = ?",
+    )
+      .bind(endpointId, userId)
+      .first<Endpoint>();
+
+    if (!existing) {
+      return c.json({ success: false, error: "Endpoint not found" }, 404);
+    }
+
+    const headers = parseStoredHeaders(existing);
+    const credentials = findPlainCredentials(headers, existing.body ?? null);
+    const names = vaultSecretNames(credentials, endpointId);
+
+    const missing = await findMissingSecrets(c.env.DB, userId, names);
+    const taken = names.filter((name) => !missing.includes(name));
+    if (taken.length > 0) {
+      return c.json(
+        {
+          success: false,
+          error: `Secrets already exist: ${taken.join(", ")}`,
+        },
+        409,
+      );
+    }
+
+    for (const [i, credential] of credentials.entries()) {
+      await createSecret(c.env, userId, names[i], credential.value);
+    }
+
+    if (credentials.length > 0) {
+      const replaced = replaceWithReferences(
+        headers,
+        existing.body ?? null,
+        names,
+      );
+      await c.env.DB.prepare(
+        "UPDATE endpoints SET headers = ?, body = ?, updated_at = ? WHERE id = ?",
+      )
+        .bind(
+          replaced.headers ? JSON.stringify(replaced.headers) : null,
+          replaced.body,
+          new Date().toISOString(),
+          endpointId,
+        )
+        .run();
+    }
+
+    return c.json({
+      success: true,
+      data: credentials.map(({ location, name }, i) => ({
+        location,
+        name,
+        secret: names[i],
+      })),
+      meta: { total: credentials.length },
+    });
+  } catch (error) {
+    console.error("Error moving credentials to the vault:", error);
+    return c.json(
+      { success: false, error: "Failed to move credentials to the vault" },
+      500,
+    );
+  }
+});
+
+// Ad-hoc probe limits per minute, per user and per target host
+const ON_DEMAND_USER_LIMIT = 10;
+const ON_DEMAND_TARGET_LIMIT = 6;
+const ON_DEMAND_WINDOW_SECONDS = 60;
+
+// Region recorded on ad-hoc probe results
+const ON_DEMAND_REGION = "on-demand";
+
+// Host an ad-hoc probe targets (the raw URL when it can't be parsed)
+function probeTarget(url: string): string {
+  try {
+    return new URL(url).host || url;
+  } catch {
+    return url;
+  }
+}
+
+// Every host an ad-hoc probe sends requests to: the endpoint itself, each
+// scenario step and the OAuth token endpoint
+function probeTargets(input: EndpointInput): string[] {
+  const urls = [resolveEndpointUrl(input)];
+  if (input.type === "scenario") {
+    for (const step of input.probeConfig?.steps ?? []) {
+      urls.push(step.url);
+    }
+  }
+  if (input.authConfig?.tokenUrl) {
+    urls.push(input.authConfig.tokenUrl);
+  }
+  return [...new Set(urls.map(probeTarget))];
+}
+
+// Count an ad-hoc probe against each limit in turn, returning seconds to
+// wait when one is exceeded
+async function consumeOnDemandLimits(
+  env: Env,
+  keys: string[],
+  limit: number,
+): Promise<number | null> {
+  for (const key of keys) {
+    const { allowed, retryAfterSeconds } = await consumeRateLimit(
+      env.STATUS_KV,
+      key,
+      limit,
+      ON_DEMAND_WINDOW_SECONDS,
+    );
+    if (!allowed) return retryAfterSeconds;
+  }
+  return null;
+}
+
+// Count an ad-hoc probe against the caller's limit
+function checkUserOnDemandLimit(
+  env: Env,
+  userId: string,
+): Promise<number | null> {
+  return consumeOnDemandLimits(
+    env,
+    [`probe:user:${userId}`],
+    ON_DEMAND_USER_LIMIT,
+  );
+}
+
+// Count an ad-hoc probe against the limit of every host it targets
+function checkTargetOnDemandLimits(
+  env: Env,
+  input: EndpointInput,
+): Promise<number | null> {
+  return consumeOnDemandLimits(
+    env,
+    probeTargets(input).map((target) => `probe:target:${target}`),
+    ON_DEMAND_TARGET_LIMIT,
+  );
+}
+
+// Respond 429 with a Retry-After header
+function tooManyProbes(c: Context<AuthEnv>, retryAfter: number) {
+  c.header("Retry-After", String(retryAfter));
+  return c.json({ success: false, error: "Too many probe requests" }, 429);
+}
+
+// Run a probe right away; results are returned, not stored, so ad-hoc runs
+// don't affect uptime or incident detection
+function runOnDemandProbe(env: Env, endpoint: Endpoint): Promise<ProbeResult> {
+  return probeEndpoint(endpoint, {
+    timeout: endpoint.timeout_seconds || 10,
+    region: ON_DEMAND_REGION,
+    env,
+    captureResponse: true,
+  });
+}
+
+// Transform an ad-hoc probe result to camelCase for iOS
+function formatProbeRun(result: ProbeResult) {
+  return {
+    timestamp: result.timestamp,
+    status: result.status,
+    latencyMs: result.latency_ms ?? null,
+    statusCode: result.status_code ?? null,
+    errorMessage: result.error_message ?? null,
+    errorCategory: result.error_category ?? null,
+    attemptCount: result.attempt_count,
+    assertions: result.details?.assertions ?? [],
+    headerChecks: result.details?.headerChecks ?? [],
+    details: result.details ?? null,
+    response: result.response_preview ?? null,
+    region: result.region,
+  };
+}
+
+// Probe a saved endpoint right away
+endpointsRoutes.post("/:id/probe", ownsEndpoint, async (c) => {
+  const endpointId = c.req.param("id");
+  const userId = c.get("userId");
+
+  try {
+    const endpoint = await c.env.DB.prepare(
+      "SELECT * FROM endpoints WHERE id = ? AND user_id = ?",
+    )
+      .bind(endpointId, userId)
+      .first<Endpoint>();
+
+    if (!endpoint) {
+      return c.json({ success: false, error: "Endpoint not found" }, 404);
+    }
+    if (endpoint.type === "heartbeat") {
+      return c.json(
+        { success: false, error: "Heartbeat endpoints can't be probed" },
+        400,
+      );
+    }
+
+    const retryAfter =
+      (await checkUserOnDemandLimit(c.env, userId)) ??
+      (await checkTargetOnDemandLimits(c.env, toEndpointInput(endpoint)));
+    if (retryAfter !== null) {
+      return tooManyProbes(c, retryAfter);
+    }
+
+    const result = await runOnDemandProbe(c.env, endpoint);
+
+    return c.json({ success: true, data: formatProbeRun(result) });
+  } catch (error) {
+    console.error("Error probing endpoint:", error);
+    return c.json({ success: false, error: "Failed to probe endpoint" }, 500);
+  }
+});
+
+// Probe an unsaved endpoint config (e.g. to check a form before saving)
+endpointsRoutes.post("/test", async (c) => {
+  const userId = c.get("userId");
+
+  try {
+    const now = new Date().toISOString();
+
+    // Parsing can resolve hosts and fetch OpenAPI documents, so the caller's
+    // limit is consumed first
+    const userRetryAfter = await checkUserOnDemandLimit(c.env, userId);
+    if (userRetryAfter !== null) {
+      return tooManyProbes(c, userRetryAfter);
+    }
+
+    const { input, errors } = await parseEndpointInput(
+      await readJSONBody(c),
+      c.env,
+    );
+    if (!input) {
+      return invalidRequest(c, errors);
+    }
+    if (input.type === "heartbeat") {
+      return c.json(
+        { success: false, error: "Heartbeat endpoints can't be probed" },
+        400,
+      );
+    }
+
+    const secretsError = await checkUnknownSecrets(c, userId, input);
+    if (secretsError) return secretsError;
+
+    const endpoint = {
+      id: crypto.randomUUID(),
+      user_id: userId,
+      ...toEndpointColumns(input),
+      is_active: 1,
+      created_at: now,
+      updated_at: now,
+    } as unknown as Endpoint;
+
+    const retryAfter = await checkTargetOnDemandLimits(c.env, input);
+    if (retryAfter !== null) {
+      return tooManyProbes(c, retryAfter);
+    }
+
+    const result = await runOnDemandProbe(c.env, endpoint);
+    // Don't leave a cached OAuth token behind for the throwaway id
+    await invalidateAccessToken(c.env.STATUS_KV, endpoint.id);
+
+    return c.json({ success: true, data: formatProbeRun(result) });
+  } catch (error) {
+    console.error("Error testing endpoint:", error);
+    return c.json({ success: false, error: "Failed to test endpoint" }, 500);
+  }
+});
+
 // ============================================
 // INCIDENTS ROUTES
 // ============================================
 
 // List incidents
 incidentsRoutes.get("/", async (c) => {
-  const userId = c.req.header("X-User-ID");
+  const userId = c.get("userId");
   const status = c.req.query("status"); // Filter by status
   const limit = parseInt(c.req.query("limit") || "50");
 
@@ -444,7 +1175,7 @@ incidentsRoutes.get("/", async (c) => {
 });
 
 // Get incident with timeline
-incidentsRoutes.get("/:id", async (c) => {
+incidentsRoutes.get("/:id", ownsIncident, async (c) => {
   const incidentId = c.req.param("id");
 
   try {
@@ -475,7 +1206,7 @@ incidentsRoutes.get("/:id", async (c) => {
 });
 
 // Update incident status
-incidentsRoutes.patch("/:id/status", async (c) => {
+incidentsRoutes.patch("/:id/status", ownsIncident, async (c) => {
   const incidentId = c.req.param("id");
 
   try {
@@ -543,10 +1274,7 @@ incidentsRoutes.patch("/:id/status", async (c) => {
 
 // Get incident statistics
 incidentsRoutes.get("/stats/summary", async (c) => {
-  const userId = c.req.header("X-User-ID");
-  if (!userId) {
-    return c.json({ success: false, error: "User ID required" }, 401);
-  }
+  const userId = c.get("userId");
 
   try {
     const stats = await c.env.DB.prepare(
@@ -561,7 +1289,7 @@ incidentsRoutes.get("/stats/summary", async (c) => {
       FROM incidents i
       INNER JOIN endpoints e ON i.endpoint_id = e.id
       WHERE e.user_id = ?
-        AND i.created_at >= datetime('now', '-30 days')
+        AND datetime(i.created_at) >= datetime('now', '-30 days')
     `,
     )
       .bind(userId)
@@ -582,7 +1310,7 @@ incidentsRoutes.get("/stats/summary", async (c) => {
 // ============================================
 
 // Get probe history for endpoint
-probesRoutes.get("/history/:endpointId", async (c) => {
+probesRoutes.get("/history/:endpointId", ownsProbedEndpoint, async (c) => {
   const endpointId = c.req.param("endpointId");
   const hours = parseInt(c.req.query("hours") || "24");
   const limit = parseInt(c.req.query("limit") || "100");
@@ -592,7 +1320,7 @@ probesRoutes.get("/history/:endpointId", async (c) => {
       `
       SELECT * FROM probe_results 
       WHERE endpoint_id = ? 
-        AND timestamp >= datetime('now', '-${hours} hours')
+        AND datetime(timestamp) >= datetime('now', '-${hours} hours')
       ORDER BY timestamp DESC
       LIMIT ?
     `,
@@ -609,6 +1337,9 @@ probesRoutes.get("/history/:endpointId", async (c) => {
       latencyMs: r.latency_ms,
       statusCode: r.status_code,
       errorMessage: r.error_message,
+      errorCategory: r.error_category,
+      attemptCount: r.attempt_count,
+      details: r.details ? JSON.parse(r.details) : null,
       region: r.region,
     }));
 
@@ -627,7 +1358,7 @@ probesRoutes.get("/history/:endpointId", async (c) => {
 });
 
 // Get probe statistics
-probesRoutes.get("/stats/:endpointId", async (c) => {
+probesRoutes.get("/stats/:endpointId", ownsProbedEndpoint, async (c) => {
   const endpointId = c.req.param("endpointId");
   const hours = parseInt(c.req.query("hours") || "24");
 
@@ -644,7 +1375,8 @@ probesRoutes.get("/stats/:endpointId", async (c) => {
         MAX(latency_ms) as max_latency_ms
       FROM probe_results
       WHERE endpoint_id = ?
-        AND timestamp >= datetime('now', '-${hours} hours')
+        AND datetime(timestamp) >= datetime('now', '-${hours} hours')
+        AND ${RUN_OUTCOME_RESULTS_FILTER}
     `,
     )
       .bind(endpointId)
@@ -680,10 +1412,7 @@ probesRoutes.get("/stats/:endpointId", async (c) => {
 
 // Register device token for push notifications
 usersRoutes.post("/device-token", async (c) => {
-  const userId = c.req.header("X-User-ID");
-  if (!userId) {
-    return c.json({ success: false, error: "User ID required" }, 401);
-  }
+  const userId = c.get("userId");
 
   try {
     const { deviceToken } = await c.req.json();
@@ -709,10 +1438,7 @@ usersRoutes.post("/device-token", async (c) => {
 
 // Get user profile
 usersRoutes.get("/me", async (c) => {
-  const userId = c.req.header("X-User-ID");
-  if (!userId) {
-    return c.json({ success: false, error: "User ID required" }, 401);
-  }
+  const userId = c.get("userId");
 
   try {
     const user = await c.env.DB.prepare(
@@ -744,3 +1470,176 @@ usersRoutes.get("/me", async (c) => {
     return c.json({ success: false, error: "Failed to fetch user" }, 500);
   }
 });
+
+// ============================================
+// SECRETS ROUTES
+// ============================================
+
+// List secret names (values are never returned)
+secretsRoutes.get("/", async (c) => {
+  const userId = c.get("userId");
+
+  try {
+    const secrets = await listSecrets(c.env.DB, userId);
+
+    return c.json({
+      success: true,
+      data: secrets,
+      meta: { total: secrets.length },
+    });
+  } catch (error) {
+    console.error("Error fetching secrets:", error);
+    return c.json({ success: false, error: "Failed to fetch secrets" }, 500);
+  }
+});
+
+// Create a secret
+secretsRoutes.post("/", async (c) => {
+  const userId = c.get("userId");
+  if (!c.env.SECRETS_ENCRYPTION_KEY) {
+    return c.json(
+      { success: false, error: "Secrets vault not configured" },
+      503,
+    );
+  }
+
+  try {
+    const { name, value } = await c.req.json<{
+      name: string;
+      value: string;
+    }>();
+
+    if (typeof name !== "string" || !SECRET_NAME_PATTERN.test(name)) {
+      return c.json(
+        {
+          success: false,
+          error:
+            "name must start with a letter or underscore and contain only letters, digits and underscores",
+        },
+        400,
+      );
+    }
+    if (typeof value !== "string" || value.length === 0) {
+      return c.json({ success: false, error: "value is required" }, 400);
+    }
+
+    const secret = await createSecret(c.env, userId, name, value);
+    if (!secret) {
+      return c.json({ success: false, error: "Secret already exists" }, 409);
+    }
+
+    return c.json({ success: true, data: secret }, 201);
+  } catch (error) {
+    console.error("Error creating secret:", error);
+    return c.json({ success: false, error: "Failed to create secret" }, 500);
+  }
+});
+
+// Rotate a secret's value
+secretsRoutes.put("/:name", async (c) => {
+  const userId = c.get("userId");
+  const name = c.req.param("name");
+  if (!c.env.SECRETS_ENCRYPTION_KEY) {
+    return c.json(
+      { success: false, error: "Secrets vault not configured" },
+      503,
+    );
+  }
+
+  try {
+    const { value } = await c.req.json<{ value: string }>();
+    if (typeof value !== "string" || value.length === 0) {
+      return c.json({ success: false, error: "value is required" }, 400);
+    }
+
+    const rotated = await rotateSecret(c.env, userId, name, value);
+    if (!rotated) {
+      return c.json({ success: false, error: "Secret not found" }, 404);
+    }
+
+    return c.json({
+      success: true,
+      data: { name, updatedAt: new Date().toISOString() },
+    });
+  } catch (error) {
+    console.error("Error rotating secret:", error);
+    return c.json({ success: false, error: "Failed to rotate secret" }, 500);
+  }
+});
+
+// Delete a secret
+secretsRoutes.delete("/:name", async (c) => {
+  const userId = c.get("userId");
+  const name = c.req.param("name");
+
+  try {
+    const deleted = await deleteSecret(c.env.DB, userId, name);
+    if (!deleted) {
+      return c.json({ success: false, error: "Secret not found" }, 404);
+    }
+
+    return c.json({ success: true, data: { deleted: true } });
+  } catch (error) {
+    console.error("Error deleting secret:", error);
+    return c.json({ success: false, error: "Failed to delete secret" }, 500);
+  }
+});
+
+// ============================================
+// HEARTBEATS ROUTES
+// ============================================
+
+// Record a ping from a job; the secret token identifies the endpoint
+heartbeatsRoutes.post("/:token", async (c) => {
+  const token = c.req.param("token");
+
+  try {
+    // State and duration may come from the query string or a JSON body
+    const parsed = await c.req.json().catch(() => null);
+    const body =
+      parsed && typeof parsed === "object" && !Array.isArray(parsed)
+        ? parsed
+        : {};
+    const state = c.req.query("state") ?? body.state ?? "success";
+    const rawDuration = c.req.query("duration") ?? body.durationMs;
+    const durationMs =
+      rawDuration !== undefined ? Number(rawDuration) : undefined;
+
+    if (!HEARTBEAT_STATES.includes(state)) {
+      return c.json(
+        {
+          success: false,
+          error: `state must be one of ${HEARTBEAT_STATES.join(", ")}`,
+        },
+        400,
+      );
+    }
+    if (
+      durationMs !== undefined &&
+      (!Number.isFinite(durationMs) || durationMs < 0)
+    ) {
+      return c.json(
+        {
+          success: false,
+          error: "duration must be a non-negative number of milliseconds",
+        },
+        400,
+      );
+    }
+
+    const recorded = await recordHeartbeat(c.env, token, {
+      state,
+      durationMs,
+      message: typeof body.message === "string" ? body.message : undefined,
+    });
+
+    if (!recorded) {
+      return c.json({ success: false, error: "Heartbeat not found" }, 404);
+    }
+
+    return c.json({ success: true, data: { state, durationMs } });
+  } catch (error) {
+    console.error("Error recording heartbeat:", error);
+    return c.json({ success: false, error: "Failed to record heartbeat" }, 500);
+  }
+});
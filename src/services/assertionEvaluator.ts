@@ -0,0 +1,269 @@
+/**
+ * Assertion Evaluator Service
+ *
+ * Evaluates response body assertions (JSON path, regex, substring, numeric)
+ */
+
+import type { AssertionResult, ProbeAssertion } from "../models/types";
+
+const JSON_PATH_OPERATORS = ["equals", "not_equals", "exists", "not_exists"];
+const NUMERIC_OPERATORS = ["eq", "gt", "gte", "lt", "lte"];
+
+// Split a JSON path like $.data.items[0]["name"] into keys
+export function parseJSONPath(path: string): (string | number)[] | null {
+  if (!path.startsWith("$")) return null;
+
+  const keys: (string | number)[] = [];
+  const pattern = /\.([A-Za-z_$][\w$-]*)|\[(\d+)\]|\[["']([^"']*)["']\]/y;
+  let index = 1;
+
+  while (index < path.length) {
+    pattern.lastIndex = index;
+    const match = pattern.exec(path);
+    if (!match) return null;
+
+    if (match[1] !== undefined) keys.push(match[1]);
+    else if (match[2] !== undefined) keys.push(Number(match[2]));
+    else keys.push(match[3]);
+
+    index = pattern.lastIndex;
+  }
+
+  return keys;
+}
+
+// Resolve a JSON path against a parsed document
+export function resolveJSONPath(
+  document: unknown,
+  path: string,
+): { found: boolean; value?: unknown } {
+  const keys = parseJSONPath(path);
+  if (!keys) return { found: false };
+
+  let current: unknown = document;
+  for (const key of keys) {
+    if (current === null || typeof current !== "object") {
+      return { found: false };
+    }
+    if (!(key in (current as Record<string | number, unknown>))) {
+      return { found: false };
+    }
+    current = (current as Record<string | number, unknown>)[key];
+  }
+
+  return { found: true, value: current };
+}
+
+// Deep equality for JSON values
+function jsonEquals(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+// Describe an assertion for error messages and the incident description
+export function describeAssertion(assertion: ProbeAssertion): string {
+  switch (assertion.type) {
+    case "json_path":
+      return assertion.operator === "exists" ||
+        assertion.operator === "not_exists"
+        ? `${assertion.path} ${assertion.operator.replace("_", " ")}`
+        : `${assertion.path} ${assertion.operator.replace("_", " ")} ${JSON.stringify(assertion.value)}`;
+    case "regex":
+      return `body matches /${assertion.pattern}/${assertion.flags ?? ""}`;
+    case "contains":
+      return `body contains ${JSON.stringify(assertion.value)}`;
+    case "not_contains":
+      return `body does not contain ${JSON.stringify(assertion.value)}`;
+    case "numeric":
+      return `${assertion.path} ${assertion.operator} ${assertion.value}`;
+  }
+}
+
+// Compare a number using a numeric operator
+function compareNumber(
+  actual: number,
+  assertion: Extract<ProbeAssertion, { type: "numeric" }>,
+): boolean {
+  switch (assertion.operator) {
+    case "eq":
+      return actual === assertion.value;
+    case "gt":
+      return actual > assertion.value;
+    case "gte":
+      return actual >= assertion.value;
+    case "lt":
+      return actual < assertion.value;
+    case "lte":
+      return actual <= assertion.value;
+  }
+}
+
+// Evaluate a single assertion against the response body
+function evaluateAssertion(
+  assertion: ProbeAssertion,
+  body: string,
+  json: { parsed: boolean; value?: unknown },
+): AssertionResult {
+  const description = describeAssertion(assertion);
+
+  switch (assertion.type) {
+    case "json_path":
+    case "numeric": {
+      if (!json.parsed) {
+        return {
+          assertion: description,
+          passed: false,
+          message: "Response body is not valid JSON",
+        };
+      }
+
+      const { found, value } = resolveJSONPath(json.value, assertion.path);
+
+      if (assertion.type === "numeric") {
+        const actual = typeof value === "string" ? Number(value) : value;
+        if (!found || typeof actual !== "number" || Number.isNaN(actual)) {
+          return {
+            assertion: description,
+            passed: false,
+            actual: value,
+            message: found ? "Value is not a number" : "Path not found",
+          };
+        }
+        return {
+          assertion: description,
+          passed: compareNumber(actual, assertion),
+          actual,
+        };
+      }
+
+      switch (assertion.operator) {
+        case "exists":
+          return { assertion: description, passed: found, actual: value };
+        case "not_exists":
+          return { assertion: description, passed: !found, actual: value };
+        case "equals":
+          return {
+            assertion: description,
+            passed: found && jsonEquals(value, assertion.value),
+            actual: value,
+            message: found ? undefined : "Path not found",
+          };
+        case "not_equals":
+          return {
+            assertion: description,
+            passed: !found || !jsonEquals(value, assertion.value),
+            actual: value,
+          };
+      }
+    }
+    case "regex":
+      return {
+        assertion: description,
+        passed: new RegExp(assertion.pattern, assertion.flags).test(body),
+      };
+    case "contains":
+      return { assertion: description, passed: body.includes(assertion.value) };
+    case "not_contains":
+      return {
+        assertion: description,
+        passed: !body.includes(assertion.value),
+      };
+  }
+}
+
+// Evaluate all assertions against a response body
+export function evaluateAssertions(
+  assertions: ProbeAssertion[],
+  body: string,
+): AssertionResult[] {
+  let json: { parsed: boolean; value?: unknown } = { parsed: false };
+  try {
+    json = { parsed: true, value: JSON.parse(body) };
+  } catch {
+    // Non-JSON bodies only fail JSON-based assertions
+  }
+
+  return assertions.map((assertion) => {
+    try {
+      return evaluateAssertion(assertion, body, json);
+    } catch (error: any) {
+      return {
+        assertion: describeAssertion(assertion),
+        passed: false,
+        message: error.message,
+      };
+    }
+  });
+}
+
+// Summarize failing assertions into an error message
+export function formatAssertionFailures(results: AssertionResult[]): string {
+  const failures = results.filter((r) => !r.passed);
+  const parts = failures.map((failure) => {
+    const detail =
+      failure.message ??
+      (failure.actual !== undefined
+        ? `got ${JSON.stringify(failure.actual)}`
+        : undefined);
+    return detail ? `${failure.assertion} (${detail})` : failure.assertion;
+  });
+  return `Assertion failed: ${parts.join("; ")}`;
+}
+
+// Validate user-supplied assertions, returning an error message if invalid
+export function validateAssertions(input: unknown): string | null {
+  if (!Array.isArray(input)) {
+    return "assertions must be an array";
+  }
+
+  for (const [i, assertion] of input.entries()) {
+    const prefix = `assertions[${i}]`;
+    if (!assertion || typeof assertion !== "object") {
+      return `${prefix} must be an object`;
+    }
+
+    switch (assertion.type) {
+      case "json_path":
+        if (
+          typeof assertion.path !== "string" ||
+          !parseJSONPath(assertion.path)
+        ) {
+          return `${prefix}.path must be a JSON path starting with $`;
+        }
+        if (!JSON_PATH_OPERATORS.includes(assertion.operator)) {
+          return `${prefix}.operator must be one of ${JSON_PATH_OPERATORS.join(", ")}`;
+        }
+        break;
+      case "numeric":
+        if (
+          typeof assertion.path !== "string" ||
+          !parseJSONPath(assertion.path)
+        ) {
+          return `${prefix}.path must be a JSON path starting with $`;
+        }
+        if (!NUMERIC_OPERATORS.includes(assertion.operator)) {
+          return `${prefix}.operator must be one of ${NUMERIC_OPERATORS.join(", ")}`;
+        }
+        if (typeof assertion.value !== "number") {
+          return `${prefix}.value must be a number`;
+        }
+        break;
+      case "regex":
+        try {
+          new RegExp(assertion.pattern, assertion.flags);
+        } catch {
+          return `${prefix}.pattern is not a valid regular expression`;
+        }
+        break;
+      case "contains":
+      case "not_contains":
+        if (typeof assertion.value !== "string") {
+          return `${prefix}.value must be a string`;
+        }
+        break;
+      default:
+        return `${prefix}.type is not supported`;
+    }
+  }
+
+  return null;
+}
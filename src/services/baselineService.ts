@@ -37,7 +37,7 @@ export async function calculateBaseline(
     WHERE endpoint_id = ?
       AND status = 'success'
       AND latency_ms IS NOT NULL
-      AND timestamp >= datetime('now', '-${hoursBack} hours')
+      AND datetime(timestamp) >= datetime('now', '-${hoursBack} hours')
     ORDER BY latency_ms ASC
   `,
     )
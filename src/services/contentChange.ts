@@ -0,0 +1,292 @@
+/**
+ * Content Change Service
+ *
+ * Hashes response bodies (minus volatile JSON fields), remembers the last
+ * snapshot per endpoint and records a compact diff when the content changes
+ */
+
+import type { Env } from "../index";
+import type {
+  ContentChangeConfig,
+  ContentDiffSummary,
+  Endpoint,
+  ProbeResult,
+} from "../models/types";
+import { parseJSONPath } from "./assertionEvaluator";
+
+// Snapshots larger than this are truncated before they're kept for diffing
+const MAX_SNAPSHOT_CHARS = 64 * 1024;
+
+// Lines kept in a diff summary
+const MAX_DIFF_LINES = 20;
+
+// Values longer than this are shortened in diff lines
+const MAX_VALUE_CHARS = 80;
+
+// Last snapshot per endpoint in KV
+interface ContentSnapshot {
+  hash: string;
+  body: string;
+}
+
+function snapshotKey(endpointId: string): string {
+  return `content:${endpointId}`;
+}
+
+// Read the content-change config stored on an endpoint
+export function parseContentChangeConfig(
+  endpoint: Endpoint,
+): ContentChangeConfig | null {
+  return typeof endpoint.content_change === "string"
+    ? JSON.parse(endpoint.content_change)
+    : (endpoint.content_change ?? null);
+}
+
+// Remove a JSON path from a parsed document in place
+function removePath(document: unknown, path: string): void {
+  const keys = parseJSONPath(path);
+  if (!keys || keys.length === 0) return;
+
+  let parent: any = document;
+  for (const key of keys.slice(0, -1)) {
+    if (parent === null || typeof parent !== "object") return;
+    parent = parent[key];
+  }
+
+  const last = keys[keys.length - 1];
+  if (Array.isArray(parent) && typeof last === "number") {
+    parent.splice(last, 1);
+  } else if (parent !== null && typeof parent === "object") {
+    delete parent[last];
+  }
+}
+
+// Copy a document without the given keys (at any depth), with sorted keys
+function canonicalize(value: unknown, ignoreKeys: Set<string>): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => canonicalize(item, ignoreKeys));
+  }
+  if (value === null || typeof value !== "object") return value;
+
+  return Object.fromEntries(
+    Object.keys(value)
+      .filter((key) => !ignoreKeys.has(key))
+      .sort()
+      .map((key) => [
+        key,
+        canonicalize((value as Record<string, unknown>)[key], ignoreKeys),
+      ]),
+  );
+}
+
+// Normalize a body for hashing; non-JSON bodies are used as-is
+export function normalizeContent(
+  config: ContentChangeConfig,
+  bodyText: string,
+): string {
+  let document: unknown;
+  try {
+    document = JSON.parse(bodyText);
+  } catch {
+    return bodyText;
+  }
+
+  for (const path of config.ignorePaths ?? []) {
+    removePath(document, path);
+  }
+  return JSON.stringify(
+    canonicalize(document, new Set(config.ignoreKeys ?? [])),
+    null,
+    2,
+  );
+}
+
+// Hex SHA-256 of normalized content
+export async function hashContent(content: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(content),
+  );
+  return Array.from(new Uint8Array(digest), (b) =>
+    b.toString(16).padStart(2, "0"),
+  ).join("");
+}
+
+// Shorten a value for a diff line
+function describeValue(value: unknown): string {
+  const text = JSON.stringify(value) ?? "undefined";
+  return text.length > MAX_VALUE_CHARS
+    ? `${text.slice(0, MAX_VALUE_CHARS)}...`
+    : text;
+}
+
+// Flatten a JSON document into leaf path -> value
+function flatten(
+  value: unknown,
+  path: string,
+  into: Map<string, unknown>,
+): Map<string, unknown> {
+  if (Array.isArray(value) && value.length > 0) {
+    value.forEach((item, index) => flatten(item, `${path}[${index}]`, into));
+  } else if (
+    value !== null &&
+    typeof value === "object" &&
+    Object.keys(value).length > 0
+  ) {
+    for (const [key, child] of Object.entries(value)) {
+      flatten(child, `${path}.${key}`, into);
+    }
+  } else {
+    into.set(path, value);
+  }
+  return into;
+}
+
+// Summarize the difference between two normalized bodies
+export function summarizeDiff(
+  oldBody: string,
+  newBody: string,
+): ContentDiffSummary {
+  const summary: ContentDiffSummary = {
+    added: 0,
+    removed: 0,
+    changed: 0,
+    lines: [],
+  };
+  const addLine = (line: string) => {
+    if (summary.lines.length < MAX_DIFF_LINES) summary.lines.push(line);
+  };
+
+  let oldDocument: unknown;
+  let newDocument: unknown;
+  try {
+    oldDocument = JSON.parse(oldBody);
+    newDocument = JSON.parse(newBody);
+  } catch {
+    // Plain text: compare line sets
+    const oldLines = oldBody.split("\n");
+    const newLines = newBody.split("\n");
+    const oldSet = new Set(oldLines);
+    const newSet = new Set(newLines);
+    for (const line of oldLines.filter((l) => !newSet.has(l))) {
+      summary.removed++;
+      addLine(`- ${describeValue(line)}`);
+    }
+    for (const line of newLines.filter((l) => !oldSet.has(l))) {
+      summary.added++;
+      addLine(`+ ${describeValue(line)}`);
+    }
+    return summary;
+  }
+
+  const before = flatten(oldDocument, "$", new Map());
+  const after = flatten(newDocument, "$", new Map());
+
+  for (const [path, value] of after) {
+    if (!before.has(path)) {
+      summary.added++;
+      addLine(`+ ${path}: ${describeValue(value)}`);
+    } else if (JSON.stringify(before.get(path)) !== JSON.stringify(value)) {
+      summary.changed++;
+      addLine(
+        `~ ${path}: ${describeValue(before.get(path))} -> ${describeValue(value)}`,
+      );
+    }
+  }
+  for (const [path, value] of before) {
+    if (!after.has(path)) {
+      summary.removed++;
+      addLine(`- ${path}: ${describeValue(value)}`);
+    }
+  }
+
+  return summary;
+}
+
+// Compare the latest body with the stored snapshot; records a change event
+// and returns a short summary when the content changed
+export async function checkForContentChange(
+  env: Env,
+  endpoint: Endpoint,
+  results: ProbeResult[],
+): Promise<string | null> {
+  // Content is expected to be the same everywhere; use the first region's
+  const latest = results.find(
+    (result) => result.details?.contentHash && result.content_snapshot,
+  );
+  if (!latest) return null;
+
+  const hash = latest.details!.contentHash!;
+  const body = latest.content_snapshot!.slice(0, MAX_SNAPSHOT_CHARS);
+  const previous = await env.STATUS_KV.get<ContentSnapshot>(
+    snapshotKey(endpoint.id),
+    "json",
+  );
+
+  if (previous?.hash === hash) return null;
+
+  await env.STATUS_KV.put(
+    snapshotKey(endpoint.id),
+    JSON.stringify({ hash, body }),
+  );
+
+  if (!previous) return null; // First snapshot is the baseline
+
+  const diff = summarizeDiff(previous.body, body);
+  await env.DB.prepare(
+    `
+    INSERT INTO content_changes (id, endpoint_id, detected_at, old_hash, new_hash, diff_summary)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `,
+  )
+    .bind(
+      crypto.randomUUID(),
+      endpoint.id,
+      latest.timestamp,
+      previous.hash,
+      hash,
+      JSON.stringify(diff),
+    )
+    .run();
+
+  const counts = [
+    diff.changed > 0 ? `${diff.changed} changed` : null,
+    diff.added > 0 ? `${diff.added} added` : null,
+    diff.removed > 0 ? `${diff.removed} removed` : null,
+  ].filter(Boolean);
+  return `Response content changed${counts.length > 0 ? ` (${counts.join(", ")})` : ""}`;
+}
+
+// Drop the stored snapshot (e.g. when the endpoint's settings change)
+export async function clearContentSnapshot(
+  kv: KVNamespace,
+  endpointId: string,
+): Promise<void> {
+  await kv.delete(snapshotKey(endpointId));
+}
+
+// Validate a user-supplied content-change config, returning an error message if invalid
+export function validateContentChangeConfig(input: unknown): string | null {
+  const config = input as ContentChangeConfig | null;
+  if (!config || typeof config !== "object" || Array.isArray(config)) {
+    return "contentChange must be an object";
+  }
+  if (config.ignorePaths !== undefined) {
+    if (
+      !Array.isArray(config.ignorePaths) ||
+      config.ignorePaths.some(
+        (path) => typeof path !== "string" || !parseJSONPath(path),
+      )
+    ) {
+      return "contentChange.ignorePaths must be an array of JSON paths like $.meta.timestamp";
+    }
+  }
+  if (
+    config.ignoreKeys !== undefined &&
+    (!Array.isArray(config.ignoreKeys) ||
+      config.ignoreKeys.some((key) => typeof key !== "string"))
+  ) {
+    return "contentChange.ignoreKeys must be an array of strings";
+  }
+  return null;
+}
@@ -0,0 +1,161 @@
+/**
+ * Credential Redaction Service
+ *
+ * Finds credentials kept in plain text in endpoint headers and JSON bodies
+ * (saved before the secrets vault existed, or typed in directly), hides
+ * them in API responses and rewrites them as {{secret.NAME}} references
+ * when they are moved into the vault
+ */
+
+import { findSecretReferences } from "./secretVault";
+
+// Shown instead of a plain-text credential
+export const REDACTED_VALUE = "********";
+
+// Header and JSON key names that carry credentials, e.g. Authorization,
+// Cookie, X-API-Key, X-Auth-Token, client_secret, password
+const CREDENTIAL_NAME =
+  /^(proxy-)?authorization$|^cookie$|(^|[-_])auth($|[-_])|api[-_]?key|token|secret|passw(or)?d|session|signature/i;
+
+// A plain-text credential in an endpoint's headers or JSON body
+export interface PlainCredential {
+  location: "header" | "body";
+  name: string; // Header name or JSON key
+  value: string;
+}
+
+// Whether a header or JSON key name looks like it holds a credential
+export function isCredentialName(name: string): boolean {
+  return CREDENTIAL_NAME.test(name);
+}
+
+// Credential values that aren't vault references (or already redacted)
+function isPlainCredential(name: string, value: unknown): value is string {
+  return (
+    isCredentialName(name) &&
+    typeof value === "string" &&
+    value.length > 0 &&
+    value !== REDACTED_VALUE &&
+    findSecretReferences(value).length === 0
+  );
+}
+
+// Rewrite plain credential values in a JSON body at any depth. Bodies that
+// aren't JSON, or hold no credentials, are returned unchanged.
+function mapBodyCredentials(
+  body: string,
+  replace: (key: string, value: string) => string,
+): string {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    return body;
+  }
+
+  let changed = false;
+  const visit = (node: unknown): unknown => {
+    if (Array.isArray(node)) return node.map(visit);
+    if (node === null || typeof node !== "object") return node;
+    return Object.fromEntries(
+      Object.entries(node).map(([key, value]) => {
+        if (isPlainCredential(key, value)) {
+          changed = true;
+          return [key, replace(key, value)];
+        }
+        return [key, visit(value)];
+      }),
+    );
+  };
+
+  const mapped = visit(parsed);
+  return changed ? JSON.stringify(mapped) : body;
+}
+
+// Hide plain credential header values; references are shown as-is
+export function redactHeaders(
+  headers: Record<string, string>,
+): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(headers).map(([name, value]) => [
+      name,
+      isPlainCredential(name, value) ? REDACTED_VALUE : value,
+    ]),
+  );
+}
+
+// Hide plain credential values in a JSON body
+export function redactBody(body: string): string {
+  return mapBodyCredentials(body, () => REDACTED_VALUE);
+}
+
+// Whether a JSON body still holds redacted placeholders
+export function hasRedactedValues(body: string): boolean {
+  return body.includes(JSON.stringify(REDACTED_VALUE));
+}
+
+// List the plain credentials in an endpoint's headers and body
+export function findPlainCredentials(
+  headers: Record<string, string> | null,
+  body: string | null,
+): PlainCredential[] {
+  const credentials: PlainCredential[] = [];
+  for (const [name, value] of Object.entries(headers ?? {})) {
+    if (isPlainCredential(name, value)) {
+      credentials.push({ location: "header", name, value });
+    }
+  }
+  if (body) {
+    mapBodyCredentials(body, (name, value) => {
+      credentials.push({ location: "body", name, value });
+      return value;
+    });
+  }
+  return credentials;
+}
+
+// Name a vault secret after each header or key it replaces, e.g. X-API-Key
+// on endpoint 3f2a9c1e-... becomes X_API_KEY_3F2A9C1E; repeats get _2, _3
+export function vaultSecretNames(
+  credentials: PlainCredential[],
+  endpointId: string,
+): string[] {
+  const suffix = `_${endpointId.replace(/[^A-Za-z0-9]/g, "").slice(0, 8)}`;
+  const names: string[] = [];
+
+  for (const { name } of credentials) {
+    let base = name.toUpperCase().replace(/[^A-Z0-9_]/g, "_");
+    if (!/^[A-Z_]/.test(base)) base = `_${base}`;
+    base = `${base.slice(0, 52)}${suffix}`.toUpperCase();
+
+    let secretName = base;
+    for (let n = 2; names.includes(secretName); n++) {
+      secretName = `${base}_${n}`;
+    }
+    names.push(secretName);
+  }
+  return names;
+}
+
+// Replace plain credentials with references to the named secrets, in the
+// order findPlainCredentials listed them
+export function replaceWithReferences(
+  headers: Record<string, string> | null,
+  body: string | null,
+  secretNames: string[],
+): { headers: Record<string, string> | null; body: string | null } {
+  const names = [...secretNames];
+  const reference = () => `{{secret.${names.shift()}}}`;
+
+  const newHeaders = headers
+    ? Object.fromEntries(
+        Object.entries(headers).map(([name, value]) => [
+          name,
+          isPlainCredential(name, value) ? reference() : value,
+        ]),
+      )
+    : null;
+  const newBody = body ? mapBodyCredentials(body, reference) : body;
+
+  return { headers: newHeaders, body: newBody };
+}
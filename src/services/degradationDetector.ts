@@ -10,7 +10,9 @@ import type {
   IncidentType,
   IncidentSeverity,
   EndpointHealthSummary,
+  ProbeResult,
 } from "../models/types";
+import { formatSchemaViolations } from "./schemaValidator";
 
 interface DegradationThresholds {
   latencyMultiplier: number; // Alert if latency > baseline * multiplier
@@ -24,6 +26,62 @@ const DEFAULT_THRESHOLDS: DegradationThresholds = {
   consecutiveFailures: 3, // 3 consecutive failures
 };
 
+// Probe failures caused by our own configuration (token endpoint,
+// unresolved secrets, blocked targets) rather than the monitored API
+const SELF_INFLICTED_CATEGORIES = ["auth_token", "secret", "blocked"];
+
+// SQL filter that skips self-inflicted probe failures
+export const MONITORED_API_RESULTS_FILTER = `(error_category IS NULL OR error_category NOT IN (${SELF_INFLICTED_CATEGORIES.map((category) => `'${category}'`).join(", ")}))`;
+
+// SQL filter that skips heartbeat `start` pings, which record when a job run
+// began rather than how it went
+export const RUN_OUTCOME_RESULTS_FILTER = `(region != 'heartbeat' OR json_extract(details, '$.heartbeat.state') IS NOT 'start')`;
+
+// How far back degradation detection looks (ms)
+export const DETECTION_WINDOW_MS = 15 * 60_000;
+
+// Probe fields degradation detection looks at
+export interface RecentProbe {
+  status: string;
+  latency_ms: number | null;
+  error_message: string | null;
+  region: string;
+  timestamp: string;
+}
+
+// Whether a probe result counts towards detection (the in-memory
+// equivalent of MONITORED_API_RESULTS_FILTER)
+export function isMonitoredApiResult(result: ProbeResult): boolean {
+  return (
+    !result.error_category ||
+    !SELF_INFLICTED_CATEGORIES.includes(result.error_category)
+  );
+}
+
+// Fetch an endpoint's probes inside the detection window, newest first.
+// Timestamps are ISO strings, so they're normalized before comparing with
+// datetime().
+export async function getRecentProbes(
+  db: D1Database,
+  endpointId: string,
+): Promise<RecentProbe[]> {
+  const { results } = await db
+    .prepare(
+      `
+    SELECT status, latency_ms, error_message, region, timestamp FROM probe_results
+    WHERE endpoint_id = ?
+      AND datetime(timestamp) >= datetime('now', '-${DETECTION_WINDOW_MS / 60_000} minutes')
+      AND ${MONITORED_API_RESULTS_FILTER}
+      AND ${RUN_OUTCOME_RESULTS_FILTER}
+    ORDER BY timestamp DESC
+  `,
+    )
+    .bind(endpointId)
+    .all<RecentProbe>();
+
+  return results;
+}
+
 // Determine incident severity based on metrics
 function determineSeverity(
   errorRate: number,
@@ -39,6 +97,24 @@ function determineSeverity(
   }
 }
 
+// Scale severity by how many of the probed regions are failing: a problem in
+// a minority of regions is downgraded, a multi-region outage is at least major
+function scaleSeverityByRegions(
+  severity: IncidentSeverity,
+  failingRegions: number,
+  totalRegions: number,
+): IncidentSeverity {
+  if (totalRegions <= 1 || failingRegions === 0) {
+    return severity;
+  } else if (failingRegions === totalRegions) {
+    return severity === "minor" ? "major" : severity;
+  } else if (failingRegions / totalRegions < 0.5) {
+    return severity === "critical" ? "major" : "minor";
+  } else {
+    return severity;
+  }
+}
+
 // Determine incident type
 function determineIncidentType(
   errorRate: number,
@@ -56,11 +132,14 @@ function determineIncidentType(
   }
 }
 
-// Check for degradation on a single endpoint
+// Check for degradation on a single endpoint probed from the given regions.
+// Callers that keep their own detection window pass it as `recentProbes`.
 export async function checkForDegradation(
   db: D1Database,
   endpointId: string,
   endpointName: string,
+  regions: string[] = ["global"],
+  recentProbes?: RecentProbe[],
   thresholds: DegradationThresholds = DEFAULT_THRESHOLDS,
 ): Promise<Incident | null> {
   // Get baseline
@@ -71,22 +150,7 @@ export async function checkForDegradation(
     .bind(endpointId)
     .first<{ avg_latency_ms: number; p95_latency_ms: number }>();
 
-  if (!baseline) {
-    return null; // No baseline, can't detect degradation
-  }
-
-  // Get recent probe results (last 15 minutes)
-  const { results: recentProbes } = await db
-    .prepare(
-      `
-    SELECT status, latency_ms FROM probe_results
-    WHERE endpoint_id = ?
-      AND timestamp >= datetime('now', '-15 minutes')
-    ORDER BY timestamp DESC
-  `,
-    )
-    .bind(endpointId)
-    .all<{ status: string; latency_ms: number | null }>();
+  recentProbes ??= await getRecentProbes(db, endpointId);
 
   if (recentProbes.length === 0) {
     return null; // No recent probes
@@ -108,18 +172,57 @@ export async function checkForDegradation(
         successfulLatencies.length
       : 0;
 
+  // Latency is only judged against a baseline; availability checks run
+  // without one so new endpoints that are down still alert
   const latencyRatio =
-    baseline.avg_latency_ms > 0 ? avgLatency / baseline.avg_latency_ms : 1;
-
-  // Count consecutive failures from the start
-  let consecutiveFailures = 0;
-  for (const probe of recentProbes) {
-    if (probe.status !== "success") {
-      consecutiveFailures++;
-    } else {
-      break;
-    }
-  }
+    baseline && baseline.avg_latency_ms > 0
+      ? avgLatency / baseline.avg_latency_ms
+      : 1;
+
+  // Most recent failure reason (e.g. which assertion broke)
+  const lastError =
+    recentProbes.find((p) => p.status !== "success" && p.error_message)
+      ?.error_message ?? undefined;
+
+  // Per-region stats: consecutive failures from the start and error rate
+  const regionStats = regions
+    .map((region) => {
+      const probes = recentProbes.filter((p) => p.region === region);
+      let consecutive = 0;
+      for (const probe of probes) {
+        if (probe.status !== "success") {
+          consecutive++;
+        } else {
+          break;
+        }
+      }
+      const regionFailures = probes.filter(
+        (p) => p.status !== "success",
+      ).length;
+      return {
+        region,
+        probeCount: probes.length,
+        consecutiveFailures: consecutive,
+        errorRate: probes.length > 0 ? regionFailures / probes.length : 0,
+      };
+    })
+    .filter((stats) => stats.probeCount > 0);
+
+  const consecutiveFailures = Math.max(
+    0,
+    ...regionStats.map((stats) => stats.consecutiveFailures),
+  );
+
+  // A region is failing when its latest probe failed and its error rate is high
+  const failingRegions = regionStats
+    .filter(
+      (stats) =>
+        stats.consecutiveFailures > 0 &&
+        stats.errorRate >= thresholds.errorRateThreshold,
+    )
+    .map((stats) => stats.region);
+  const isRegional =
+    failingRegions.length > 0 && failingRegions.length < regionStats.length;
 
   // Check thresholds
   const hasLatencySpike = latencyRatio >= thresholds.latencyMultiplier;
@@ -131,12 +234,12 @@ export async function checkForDegradation(
     return null; // No degradation detected
   }
 
-  // Check if there's already an active incident for this endpoint
+  // Check if there's already an active availability incident for this endpoint
   const existingIncident = await db
     .prepare(
       `
     SELECT id FROM incidents 
-    WHERE endpoint_id = ? AND status != 'resolved'
+    WHERE endpoint_id = ? AND status != 'resolved' AND type != 'schema_drift'
     LIMIT 1
   `,
     )
@@ -153,11 +256,15 @@ export async function checkForDegradation(
     latencyRatio,
     timeouts > 0,
   );
-  const severity = determineSeverity(
-    errorRate,
-    latencyRatio,
-    consecutiveFailures,
+  const severity = scaleSeverityByRegions(
+    determineSeverity(errorRate, latencyRatio, consecutiveFailures),
+    failingRegions.length,
+    regionStats.length,
   );
+  const affectedRegions =
+    failingRegions.length > 0
+      ? failingRegions
+      : regionStats.map((stats) => stats.region);
 
   const incident: Incident = {
     id: crypto.randomUUID(),
@@ -167,15 +274,20 @@ export async function checkForDegradation(
     status: "active",
     started_at: new Date().toISOString(),
     resolved_at: undefined,
-    title: generateIncidentTitle(endpointName, incidentType),
+    title: generateIncidentTitle(
+      endpointName,
+      incidentType,
+      isRegional ? failingRegions : undefined,
+    ),
     description: generateIncidentDescription(
       incidentType,
       errorRate,
       latencyRatio,
-      baseline.avg_latency_ms,
+      baseline?.avg_latency_ms ?? 0,
       avgLatency,
+      lastError,
     ),
-    affected_regions: undefined,
+    affected_regions: JSON.stringify(affectedRegions),
     created_at: new Date().toISOString(),
     updated_at: new Date().toISOString(),
   };
@@ -183,20 +295,25 @@ export async function checkForDegradation(
   return incident;
 }
 
-// Generate incident title
+// Generate incident title, naming the regions for a regional problem
 function generateIncidentTitle(
   endpointName: string,
   type: IncidentType,
+  regions?: string[],
 ): string {
+  const where = regions ? ` in ${regions.join(", ")}` : "";
+
   switch (type) {
     case "complete_outage":
-      return `${endpointName} is down`;
+      return `${endpointName} is down${where}`;
     case "timeout":
-      return `${endpointName} experiencing timeouts`;
+      return `${endpointName} experiencing timeouts${where}`;
     case "high_error_rate":
-      return `${endpointName} has high error rate`;
+      return `${endpointName} has high error rate${where}`;
     case "latency_spike":
-      return `${endpointName} latency spike detected`;
+      return `${endpointName} latency spike detected${where}`;
+    case "schema_drift":
+      return `${endpointName} response no longer matches its schema`;
   }
 }
 
@@ -207,20 +324,24 @@ function generateIncidentDescription(
   latencyRatio: number,
   baselineLatency: number,
   currentLatency: number,
+  lastError?: string,
 ): string {
   const errorPct = (errorRate * 100).toFixed(1);
   const baselineMs = baselineLatency.toFixed(0);
   const currentMs = currentLatency.toFixed(0);
+  const reason = lastError ? `. Last failure: ${lastError}` : "";
 
   switch (type) {
     case "complete_outage":
-      return `All requests are failing. Error rate: ${errorPct}%`;
+      return `All requests are failing. Error rate: ${errorPct}%${reason}`;
     case "timeout":
-      return `Requests are timing out. Error rate: ${errorPct}%`;
+      return `Requests are timing out. Error rate: ${errorPct}%${reason}`;
     case "high_error_rate":
-      return `Error rate has increased to ${errorPct}%`;
+      return `Error rate has increased to ${errorPct}%${reason}`;
     case "latency_spike":
       return `Latency increased from ${baselineMs}ms to ${currentMs}ms (${latencyRatio.toFixed(1)}x baseline)`;
+    case "schema_drift":
+      return `Response body violates the endpoint's JSON Schema${reason}`;
   }
 }
 
@@ -270,25 +391,25 @@ export async function createIncident(
     .run();
 }
 
-// Check and auto-resolve incidents
+// Check and auto-resolve incidents, returning the resolved incident if any
 export async function checkForRecovery(
   db: D1Database,
   endpointId: string,
-): Promise<boolean> {
-  // Get active incident
+): Promise<Incident | null> {
+  // Get active availability incident (schema drift resolves separately)
   const activeIncident = await db
     .prepare(
       `
-    SELECT id FROM incidents 
-    WHERE endpoint_id = ? AND status != 'resolved'
+    SELECT * FROM incidents 
+    WHERE endpoint_id = ? AND status != 'resolved' AND type != 'schema_drift'
     LIMIT 1
   `,
     )
     .bind(endpointId)
-    .first<{ id: string }>();
+    .first<Incident>();
 
   if (!activeIncident) {
-    return false; // No active incident
+    return null; // No active incident
   }
 
   // Check if last 5 probes are all successful
@@ -297,6 +418,8 @@ export async function checkForRecovery(
       `
     SELECT status FROM probe_results
     WHERE endpoint_id = ?
+      AND ${MONITORED_API_RESULTS_FILTER}
+      AND ${RUN_OUTCOME_RESULTS_FILTER}
     ORDER BY timestamp DESC
     LIMIT 5
   `,
@@ -309,39 +432,121 @@ export async function checkForRecovery(
     recentProbes.every((p) => p.status === "success");
 
   if (allSuccessful) {
-    const now = new Date().toISOString();
-
-    // Resolve incident
-    await db
-      .prepare(
-        `
-      UPDATE incidents 
-      SET status = 'resolved', resolved_at = ?, updated_at = ?
-      WHERE id = ?
-    `,
-      )
-      .bind(now, now, activeIncident.id)
-      .run();
-
-    // Add timeline entry
-    await db
-      .prepare(
-        `
-      INSERT INTO incident_timeline (id, incident_id, status, message, timestamp)
-      VALUES (?, ?, ?, ?, ?)
-    `,
-      )
-      .bind(
-        crypto.randomUUID(),
-        activeIncident.id,
-        "resolved",
-        "Endpoint has recovered. All recent probes successful.",
-        now,
-      )
-      .run();
-
-    return true;
+    return resolveIncident(
+      db,
+      activeIncident,
+      "Endpoint has recovered. All recent probes successful.",
+    );
+  }
+
+  return null;
+}
+
+// Open a schema-drift incident when a checked response broke the schema, or
+// resolve the open one once every checked response validates again
+export async function checkForSchemaDrift(
+  db: D1Database,
+  endpointId: string,
+  endpointName: string,
+  results: ProbeResult[],
+): Promise<{ opened: Incident | null; resolved: Incident | null }> {
+  const checked = results.filter(
+    (result) => result.details?.schemaViolations !== undefined,
+  );
+  if (checked.length === 0) {
+    return { opened: null, resolved: null }; // Nothing validated this run
   }
 
-  return false;
+  const activeIncident = await db
+    .prepare(
+      `
+    SELECT * FROM incidents
+    WHERE endpoint_id = ? AND status != 'resolved' AND type = 'schema_drift'
+    LIMIT 1
+  `,
+    )
+    .bind(endpointId)
+    .first<Incident>();
+
+  const drifted = checked.filter(
+    (result) => result.details!.schemaViolations!.length > 0,
+  );
+
+  if (drifted.length === 0) {
+    const resolved = activeIncident
+      ? await resolveIncident(
+          db,
+          activeIncident,
+          "Responses match the schema again.",
+        )
+      : null;
+    return { opened: null, resolved };
+  }
+
+  if (activeIncident) {
+    return { opened: null, resolved: null };
+  }
+
+  const now = new Date().toISOString();
+  const incident: Incident = {
+    id: crypto.randomUUID(),
+    endpoint_id: endpointId,
+    type: "schema_drift",
+    severity: "major",
+    status: "active",
+    started_at: now,
+    resolved_at: undefined,
+    title: generateIncidentTitle(endpointName, "schema_drift"),
+    description: generateIncidentDescription(
+      "schema_drift",
+      0,
+      1,
+      0,
+      0,
+      formatSchemaViolations(drifted[0].details!.schemaViolations!),
+    ),
+    affected_regions: JSON.stringify(drifted.map((result) => result.region)),
+    created_at: now,
+    updated_at: now,
+  };
+
+  await createIncident(db, incident);
+  return { opened: incident, resolved: null };
+}
+
+// Resolve an incident with a timeline entry, returning the resolved incident
+export async function resolveIncident(
+  db: D1Database,
+  incident: Incident,
+  message: string,
+): Promise<Incident> {
+  const now = new Date().toISOString();
+
+  await db
+    .prepare(
+      `
+    UPDATE incidents 
+    SET status = 'resolved', resolved_at = ?, updated_at = ?
+    WHERE id = ?
+  `,
+    )
+    .bind(now, now, incident.id)
+    .run();
+
+  await db
+    .prepare(
+      `
+    INSERT INTO incident_timeline (id, incident_id, status, message, timestamp)
+    VALUES (?, ?, ?, ?, ?)
+  `,
+    )
+    .bind(crypto.randomUUID(), incident.id, "resolved", message, now)
+    .run();
+
+  return {
+    ...incident,
+    status: "resolved",
+    resolved_at: now,
+    updated_at: now,
+  };
 }
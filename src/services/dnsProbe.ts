@@ -0,0 +1,282 @@
+/**
+ * DNS Probe Service
+ *
+ * Resolves records over DNS-over-HTTPS (JSON API), checks them against
+ * expected values or patterns and detects when the answers change
+ */
+
+import type { Env } from "../index";
+import type {
+  DNSConfig,
+  DNSRecordType,
+  Endpoint,
+  ProbeResult,
+} from "../models/types";
+import type { ProbeConfig } from "./probeEngine";
+import { DEFAULT_REDIRECT_POLICY, fetchWithRedirects } from "./redirectPolicy";
+import { assertSafeUrl, BlockedTargetError } from "./urlSafety";
+
+// Used when neither the endpoint nor DOH_RESOLVER_URL sets a resolver
+export const DEFAULT_RESOLVER_URL = "https://cloudflare-dns.com/dns-query";
+
+// DNS RR type codes returned in DoH JSON answers
+const RECORD_TYPE_CODES: Record<DNSRecordType, number> = {
+  A: 1,
+  CNAME: 5,
+  MX: 15,
+  TXT: 16,
+  AAAA: 28,
+};
+
+// DoH RCODE names for error messages
+const RCODE_NAMES: Record<number, string> = {
+  1: "FORMERR",
+  2: "SERVFAIL",
+  3: "NXDOMAIN",
+  5: "REFUSED",
+};
+
+// Last seen answers are kept this long without a probe (seconds)
+const RECORD_CACHE_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+// DoH JSON response (RFC 8427 style, as served by Cloudflare and Google)
+interface DoHResponse {
+  Status: number;
+  Answer?: { name: string; type: number; TTL: number; data: string }[];
+}
+
+// Read the DNS config stored on an endpoint
+function parseDNSConfig(endpoint: Endpoint): DNSConfig {
+  return typeof endpoint.probe_config === "string"
+    ? JSON.parse(endpoint.probe_config)
+    : (endpoint.probe_config as DNSConfig);
+}
+
+// Normalize answer data so equal records compare equal
+function normalizeRecord(type: DNSRecordType, data: string): string {
+  if (type === "TXT") {
+    // TXT data is quoted and may be split into several strings
+    return data.replace(/"\s*"/g, "").replace(/^"|"$/g, "");
+  }
+  return data.replace(/\.$/, "").toLowerCase();
+}
+
+// Compare answers with expected values and patterns
+function checkRecords(config: DNSConfig, records: string[]): string | null {
+  for (const expected of config.expectedValues ?? []) {
+    if (!records.includes(normalizeRecord(config.recordType, expected))) {
+      return `Expected ${config.recordType} record ${expected} not found (got ${records.join(", ")})`;
+    }
+  }
+
+  if (config.expectedPatterns?.length) {
+    const patterns = config.expectedPatterns.map((p) => new RegExp(p));
+    const unexpected = records.find(
+      (record) => !patterns.some((pattern) => pattern.test(record)),
+    );
+    if (unexpected !== undefined) {
+      return `${config.recordType} record ${unexpected} matches no expected pattern`;
+    }
+  }
+
+  return null;
+}
+
+// Resolve the configured record and check the answers
+export async function probeDNS(
+  endpoint: Endpoint,
+  config: ProbeConfig,
+): Promise<ProbeResult> {
+  const id = crypto.randomUUID();
+  const timestamp = new Date().toISOString();
+  const dns = parseDNSConfig(endpoint);
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), config.timeout * 1000);
+
+  try {
+    const url = new URL(
+      dns.resolverUrl || config.env.DOH_RESOLVER_URL || DEFAULT_RESOLVER_URL,
+    );
+    url.searchParams.set("name", dns.name);
+    url.searchParams.set("type", dns.recordType);
+
+    const startTime = performance.now();
+    // Only resolvers chosen by the user (and their redirects) are vetted
+    const { response } = await fetchWithRedirects(
+      url.toString(),
+      {
+        headers: {
+          Accept: "application/dns-json",
+          "User-Agent": "PulseAPI-Probe/1.0",
+        },
+        signal: controller.signal,
+      },
+      DEFAULT_REDIRECT_POLICY,
+      dns.resolverUrl
+        ? (hopUrl) => assertSafeUrl(config.env, hopUrl, ["https:"])
+        : undefined,
+    );
+    const latencyMs = performance.now() - startTime;
+
+    if (!response.ok) {
+      clearTimeout(timeoutId);
+      return {
+        id,
+        endpoint_id: endpoint.id,
+        timestamp,
+        status: "error",
+        latency_ms: latencyMs,
+        status_code: response.status,
+        error_message: `DNS resolver returned ${response.status}`,
+        error_category: "dns",
+        region: config.region,
+      };
+    }
+
+    const answer = await response.json<DoHResponse>();
+    clearTimeout(timeoutId);
+
+    const typeCode = RECORD_TYPE_CODES[dns.recordType];
+    const records = (answer.Answer ?? [])
+      .filter((record) => record.type === typeCode)
+      .map((record) => normalizeRecord(dns.recordType, record.data))
+      .sort();
+
+    const resolutionError =
+      answer.Status !== 0
+        ? `DNS resolution failed: ${RCODE_NAMES[answer.Status] ?? `RCODE ${answer.Status}`}`
+        : records.length === 0
+          ? `No ${dns.recordType} records for ${dns.name}`
+          : null;
+    const checkError = resolutionError ? null : checkRecords(dns, records);
+
+    return {
+      id,
+      endpoint_id: endpoint.id,
+      timestamp,
+      status: resolutionError || checkError ? "error" : "success",
+      latency_ms: latencyMs,
+      status_code: response.status,
+      error_message: resolutionError ?? checkError ?? undefined,
+      error_category: resolutionError
+        ? "dns"
+        : checkError
+          ? "assertion"
+          : undefined,
+      details: resolutionError ? undefined : { dnsRecords: records },
+      region: config.region,
+    };
+  } catch (error: any) {
+    clearTimeout(timeoutId);
+
+    if (error instanceof BlockedTargetError) {
+      return {
+        id,
+        endpoint_id: endpoint.id,
+        timestamp,
+        status: "error",
+        error_message: error.message,
+        error_category: "blocked",
+        region: config.region,
+      };
+    }
+
+    const isTimeout = error.name === "AbortError";
+
+    return {
+      id,
+      endpoint_id: endpoint.id,
+      timestamp,
+      status: isTimeout ? "timeout" : "error",
+      error_message: isTimeout ? "DNS query timed out" : error.message,
+      error_category: isTimeout ? "timeout" : "dns",
+      region: config.region,
+    };
+  }
+}
+
+// Compare resolved records with the last seen answers per region, returning
+// a summary of what changed (null when nothing did or nothing is known yet)
+export async function checkForRecordChange(
+  env: Env,
+  endpoint: Endpoint,
+  results: ProbeResult[],
+): Promise<string | null> {
+  const dns = parseDNSConfig(endpoint);
+  // Change description -> regions that saw it (regions usually agree)
+  const changes = new Map<string, string[]>();
+
+  for (const result of results) {
+    // Answers that fail expectations still count as a change
+    const records = result.details?.dnsRecords;
+    if (!records) continue;
+
+    const key = `dns:${endpoint.id}:${result.region}`;
+    const previous = await env.STATUS_KV.get<string[]>(key, "json");
+    await env.STATUS_KV.put(key, JSON.stringify(records), {
+      expirationTtl: RECORD_CACHE_TTL_SECONDS,
+    });
+
+    if (!previous) continue;
+
+    const added = records.filter((record) => !previous.includes(record));
+    const removed = previous.filter((record) => !records.includes(record));
+    if (added.length === 0 && removed.length === 0) continue;
+
+    const parts = [
+      added.length > 0 ? `added ${added.join(", ")}` : null,
+      removed.length > 0 ? `removed ${removed.join(", ")}` : null,
+    ].filter(Boolean);
+    const change = parts.join("; ");
+    changes.set(change, [...(changes.get(change) ?? []), result.region]);
+  }
+
+  if (changes.size === 0) return null;
+
+  const summary = [...changes]
+    .map(([change, regions]) => `${change} (${regions.join(", ")})`)
+    .join("; ");
+  return `${dns.recordType} records for ${dns.name} changed: ${summary}`;
+}
+
+// Validate a user-supplied DNS config, returning an error message if invalid
+export function validateDNSConfig(input: unknown): string | null {
+  const config = input as Partial<DNSConfig> | null;
+  if (!config || typeof config !== "object") {
+    return "probeConfig must be an object";
+  }
+  if (typeof config.name !== "string" || !config.name) {
+    return "probeConfig.name is required";
+  }
+  if (!config.recordType || !(config.recordType in RECORD_TYPE_CODES)) {
+    return `probeConfig.recordType must be one of ${Object.keys(RECORD_TYPE_CODES).join(", ")}`;
+  }
+  if (config.resolverUrl !== undefined) {
+    try {
+      new URL(config.resolverUrl);
+    } catch {
+      return "probeConfig.resolverUrl must be a valid URL";
+    }
+  }
+  if (
+    config.expectedValues !== undefined &&
+    (!Array.isArray(config.expectedValues) ||
+      config.expectedValues.some((value) => typeof value !== "string"))
+  ) {
+    return "probeConfig.expectedValues must be an array of strings";
+  }
+  if (config.expectedPatterns !== undefined) {
+    if (!Array.isArray(config.expectedPatterns)) {
+      return "probeConfig.expectedPatterns must be an array of strings";
+    }
+    for (const pattern of config.expectedPatterns) {
+      try {
+        new RegExp(pattern);
+      } catch {
+        return `probeConfig.expectedPatterns contains an invalid regular expression: ${pattern}`;
+      }
+    }
+  }
+  return null;
+}
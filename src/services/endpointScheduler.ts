@@ -0,0 +1,234 @@
+/**
+ * Endpoint Scheduler Service
+ *
+ * One Durable Object per endpoint owns its probe schedule through alarms,
+ * which allows intervals down to 30 seconds. The cron trigger only adopts
+ * endpoints whose scheduler was never started or has stalled.
+ */
+
+import type { Env } from "../index";
+import type { ProbeResult } from "../models/types";
+import {
+  DETECTION_WINDOW_MS,
+  getRecentProbes,
+  isMonitoredApiResult,
+  type RecentProbe,
+} from "./degradationDetector";
+import {
+  finalizeProbeResults,
+  probeAllRegions,
+  storeProbeResults,
+} from "./probeEngine";
+import {
+  effectiveIntervalSeconds,
+  getDueEndpoints,
+  getSchedulableEndpoint,
+  nextProbeStatement,
+  planMinIntervalSeconds,
+  planProbeSlots,
+} from "./probeScheduler";
+
+// Commands accepted by a scheduler object
+export type SchedulerCommand = "start" | "pause" | "delete";
+
+// Consecutive failures the detector needs before opening an incident
+const DETECTION_FAILURE_THRESHOLD = 3;
+
+// Added to next_probe_at so cron never adopts a healthy scheduler
+const ADOPTION_GRACE_MS = 60_000;
+
+// Send a command to an endpoint's scheduler; no-op without the binding.
+// `delayMs` postpones the first alarm of a start command. Schedulers re-read
+// the endpoint from D1 on every alarm, so a failed command is only logged:
+// cron adoption or the next alarm reconciles it.
+export async function syncEndpointScheduler(
+  env: Env,
+  endpointId: string,
+  command: SchedulerCommand,
+  delayMs: number = 0,
+): Promise<void> {
+  if (!env.ENDPOINT_SCHEDULER) return;
+
+  try {
+    const stub = env.ENDPOINT_SCHEDULER.get(
+      env.ENDPOINT_SCHEDULER.idFromName(endpointId),
+    );
+    const response = await stub.fetch(`https://endpoint-scheduler/${command}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ endpointId, delayMs }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Scheduler returned HTTP ${response.status}`);
+    }
+  } catch (error) {
+    console.error(
+      `Error sending ${command} to scheduler ${endpointId}:`,
+      error,
+    );
+  }
+}
+
+// Start schedulers for due endpoints that have none running (cron). First
+// alarms keep the host jitter; later alarms stay offset by the same amount.
+export async function adoptDueEndpoints(
+  env: Env,
+  tickTime: Date = new Date(),
+): Promise<number> {
+  const endpoints = await getDueEndpoints(env.DB, tickTime);
+  const slots = planProbeSlots(endpoints, tickTime);
+
+  await Promise.all(
+    slots.map(({ endpoint, offsetMs }) =>
+      syncEndpointScheduler(env, endpoint.id, "start", offsetMs),
+    ),
+  );
+
+  if (endpoints.length > 0) {
+    console.log(`Started schedulers for ${endpoints.length} endpoints`);
+  }
+  return endpoints.length;
+}
+
+// Durable Object that probes one endpoint on its own alarm schedule
+export class EndpointScheduler implements DurableObject {
+  // Probes inside the detection window, newest first, so detection skips
+  // its D1 query; reloaded from D1 after eviction
+  private recentProbes: RecentProbe[] | null = null;
+
+  constructor(
+    private readonly state: DurableObjectState,
+    private readonly env: Env,
+  ) {}
+
+  async fetch(request: Request): Promise<Response> {
+    const command = new URL(request.url).pathname.slice(1);
+
+    if (request.method !== "POST") {
+      return new Response("Method Not Allowed", { status: 405 });
+    }
+
+    switch (command) {
+      case "start": {
+        const { endpointId, delayMs } = await request.json<{
+          endpointId: string;
+          delayMs?: number;
+        }>();
+        await this.state.storage.put("endpointId", endpointId);
+        await this.state.storage.setAlarm(Date.now() + (delayMs ?? 0));
+        break;
+      }
+      case "pause":
+        await this.state.storage.deleteAlarm();
+        break;
+      case "delete":
+        await this.state.storage.deleteAlarm();
+        await this.state.storage.deleteAll();
+        this.recentProbes = null;
+        break;
+      default:
+        return new Response("Not Found", { status: 404 });
+    }
+
+    return Response.json({ ok: true });
+  }
+
+  async alarm(): Promise<void> {
+    const endpointId = await this.state.storage.get<string>("endpointId");
+    if (!endpointId) return;
+
+    const endpoint = await getSchedulableEndpoint(this.env.DB, endpointId);
+    if (!endpoint) {
+      // Endpoint was deleted while the delete command was in flight
+      await this.state.storage.deleteAll();
+      return;
+    }
+    if (!endpoint.is_active || endpoint.type === "heartbeat") {
+      return; // Paused (resume sends a new start command) or push-based
+    }
+
+    const now = new Date();
+    const intervalSeconds = effectiveIntervalSeconds(endpoint, now);
+
+    // Schedule the next run first so a failing probe cannot stop the schedule
+    const nextAlarm = now.getTime() + intervalSeconds * 1000;
+    await this.state.storage.setAlarm(nextAlarm);
+    await nextProbeStatement(
+      this.env.DB,
+      endpoint.id,
+      new Date(nextAlarm + ADOPTION_GRACE_MS).toISOString(),
+    ).run();
+
+    const results = await probeAllRegions(this.env, endpoint);
+    await storeProbeResults(this.env.DB, results);
+
+    const recentProbes = await this.updateRecentProbes(
+      endpoint.id,
+      results,
+      now,
+    );
+
+    // A fresh failure streak is re-checked sooner, but never more often than
+    // the owner's plan allows, so the detector confirms it quickly
+    const streak = failureStreak(recentProbes);
+    if (streak > 0 && streak < DETECTION_FAILURE_THRESHOLD) {
+      await this.state.storage.setAlarm(
+        Math.min(
+          nextAlarm,
+          now.getTime() + planMinIntervalSeconds(endpoint, now) * 1000,
+        ),
+      );
+    }
+
+    await finalizeProbeResults(
+      this.env,
+      endpoint,
+      results,
+      Math.ceil(intervalSeconds / 60),
+      recentProbes,
+    );
+  }
+
+  // Add a run's results to the detection window and drop expired probes.
+  // Results are already stored, so a reload from D1 includes them.
+  private async updateRecentProbes(
+    endpointId: string,
+    results: ProbeResult[],
+    now: Date,
+  ): Promise<RecentProbe[]> {
+    if (this.recentProbes === null) {
+      this.recentProbes = await getRecentProbes(this.env.DB, endpointId);
+    } else {
+      const latest = results.filter(isMonitoredApiResult).map((result) => ({
+        status: result.status,
+        latency_ms: result.latency_ms ?? null,
+        error_message: result.error_message ?? null,
+        region: result.region,
+        timestamp: result.timestamp,
+      }));
+      this.recentProbes = [...latest, ...this.recentProbes];
+    }
+
+    const cutoff = new Date(now.getTime() - DETECTION_WINDOW_MS).toISOString();
+    this.recentProbes = this.recentProbes.filter(
+      (probe) => probe.timestamp >= cutoff,
+    );
+    return this.recentProbes;
+  }
+}
+
+// Longest run of failures at the head of any region's probes
+function failureStreak(recentProbes: RecentProbe[]): number {
+  const streaks = new Map<string, number>();
+  const recovered = new Set<string>();
+  for (const probe of recentProbes) {
+    if (recovered.has(probe.region)) continue;
+    if (probe.status === "success") {
+      recovered.add(probe.region);
+    } else {
+      streaks.set(probe.region, (streaks.get(probe.region) ?? 0) + 1);
+    }
+  }
+  return Math.max(0, ...streaks.values());
+}
@@ -0,0 +1,447 @@
+/**
+ * Endpoint Validation Service
+ *
+ * Typed request schema for endpoint writes. Create, replace, patch and
+ * ad-hoc test requests all validate here and report every problem with the
+ * field it belongs to.
+ */
+
+import type { Env } from "../index";
+import type {
+  ContentChangeConfig,
+  EndpointAuthConfig,
+  EndpointType,
+  HeaderRule,
+  HTTPMethod,
+  ProbeAssertion,
+  RedirectPolicy,
+  RetryPolicy,
+} from "../models/types";
+import { validateAssertions } from "./assertionEvaluator";
+import { validateScenarioConfig } from "./scenarioProbe";
+import { validateGraphQLConfig } from "./graphqlProbe";
+import { validateWebSocketConfig } from "./websocketProbe";
+import { validateTCPConfig } from "./tcpProbe";
+import { validateDNSConfig } from "./dnsProbe";
+import { validateHeartbeatConfig } from "./heartbeatMonitor";
+import {
+  fetchOpenAPISchema,
+  validateOpenAPISource,
+  validateResponseSchema,
+  type OpenAPISchemaSource,
+} from "./schemaValidator";
+import { validateContentChangeConfig } from "./contentChange";
+import { validateHeaderRules } from "./headerRules";
+import { validateAuthConfig } from "./oauthTokenService";
+import { validateRetryPolicy } from "./retryPolicy";
+import { validateRedirectPolicy } from "./redirectPolicy";
+import { validateRegions } from "./regionalExecutor";
+import { MIN_INTERVAL_SECONDS, SUPPORTED_INTERVALS } from "./probeScheduler";
+import { assertSafeUrl, checkUrlSafety, HTTP_SCHEMES } from "./urlSafety";
+
+export const ENDPOINT_TYPES: EndpointType[] = [
+  "http",
+  "scenario",
+  "graphql",
+  "websocket",
+  "tcp",
+  "dns",
+  "heartbeat",
+];
+
+const HTTP_METHODS: HTTPMethod[] = [
+  "GET",
+  "POST",
+  "PUT",
+  "PATCH",
+  "DELETE",
+  "HEAD",
+];
+
+// Bounds shared by every write path
+export const ENDPOINT_BOUNDS = {
+  nameLength: { min: 1, max: 200 },
+  probeIntervalSeconds: { min: MIN_INTERVAL_SECONDS, max: 3600 },
+  timeoutSeconds: { min: 1, max: 30 },
+  statusCode: { min: 100, max: 599 },
+};
+
+// Types whose URL is the probe target (others derive or ignore it)
+const URL_REQUIRED_TYPES: EndpointType[] = [
+  "http",
+  "graphql",
+  "websocket",
+  "tcp",
+];
+
+// Endpoint create/update body (camelCase, as sent by iOS)
+export interface EndpointInput {
+  name: string;
+  type?: EndpointType;
+  url?: string;
+  method?: HTTPMethod;
+  headers?: Record<string, string> | null;
+  body?: string | null;
+  probeConfig?: Record<string, any> | null; // Shape depends on type
+  authConfig?: EndpointAuthConfig | null;
+  retryPolicy?: RetryPolicy | null;
+  redirectPolicy?: RedirectPolicy | null;
+  regions?: string[] | null;
+  probeIntervalMinutes?: number;
+  probeIntervalSeconds?: number | null;
+  timeoutSeconds?: number;
+  expectedStatusCodes?: number[];
+  assertions?: ProbeAssertion[] | null;
+  responseSchema?: Record<string, unknown> | boolean | null;
+  openApiSchema?: OpenAPISchemaSource | null;
+  contentChange?: ContentChangeConfig | null;
+  headerRules?: HeaderRule[] | null;
+  securityHeaders?: boolean;
+  isActive?: boolean;
+}
+
+// A problem with one field of a request body
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+// Check one field's value, returning an error message if it's invalid
+type FieldValidator = (value: any, env: Env) => string | null;
+
+// Integer check shared by the bounded numeric fields
+function integerBetween(
+  value: unknown,
+  { min, max }: { min: number; max: number },
+): boolean {
+  return (
+    Number.isInteger(value) && Number(value) >= min && Number(value) <= max
+  );
+}
+
+// Per-field checks; null means "not set" for optional object fields
+const FIELD_VALIDATORS: Record<keyof EndpointInput, FieldValidator> = {
+  name: (value) => {
+    const { min, max } = ENDPOINT_BOUNDS.nameLength;
+    return typeof value === "string" &&
+      value.trim().length >= min &&
+      value.length <= max
+      ? null
+      : `must be a string of ${min} to ${max} characters`;
+  },
+  type: (value) =>
+    ENDPOINT_TYPES.includes(value)
+      ? null
+      : `must be one of ${ENDPOINT_TYPES.join(", ")}`,
+  url: (value) => (typeof value === "string" ? null : "must be a string"),
+  method: (value) =>
+    HTTP_METHODS.includes(value)
+      ? null
+      : `must be one of ${HTTP_METHODS.join(", ")}`,
+  headers: (value) =>
+    value === null ||
+    (typeof value === "object" &&
+      !Array.isArray(value) &&
+      Object.values(value).every((header) => typeof header === "string"))
+      ? null
+      : "must be an object of string values",
+  body: (value) =>
+    value === null || typeof value === "string" ? null : "must be a string",
+  // Checked against the endpoint type in validateTypeConfig
+  probeConfig: () => null,
+  authConfig: (value) => (value === null ? null : validateAuthConfig(value)),
+  retryPolicy: (value) => (value === null ? null : validateRetryPolicy(value)),
+  redirectPolicy: (value) =>
+    value === null ? null : validateRedirectPolicy(value),
+  regions: (value, env) =>
+    value === null ? null : validateRegions(value, env),
+  probeIntervalMinutes: (value) =>
+    SUPPORTED_INTERVALS.includes(value)
+      ? null
+      : `must be one of ${SUPPORTED_INTERVALS.join(", ")}`,
+  probeIntervalSeconds: (value) =>
+    value === null ||
+    integerBetween(value, ENDPOINT_BOUNDS.probeIntervalSeconds)
+      ? null
+      : `must be an integer between ${ENDPOINT_BOUNDS.probeIntervalSeconds.min} and ${ENDPOINT_BOUNDS.probeIntervalSeconds.max}`,
+  timeoutSeconds: (value) =>
+    integerBetween(value, ENDPOINT_BOUNDS.timeoutSeconds)
+      ? null
+      : `must be an integer between ${ENDPOINT_BOUNDS.timeoutSeconds.min} and ${ENDPOINT_BOUNDS.timeoutSeconds.max}`,
+  expectedStatusCodes: (value) =>
+    Array.isArray(value) &&
+    value.length > 0 &&
+    value.every((code) => integerBetween(code, ENDPOINT_BOUNDS.statusCode))
+      ? null
+      : `must be a non-empty array of status codes between ${ENDPOINT_BOUNDS.statusCode.min} and ${ENDPOINT_BOUNDS.statusCode.max}`,
+  assertions: (value) => (value === null ? null : validateAssertions(value)),
+  responseSchema: (value) =>
+    value === null ? null : validateResponseSchema(value),
+  openApiSchema: (value) =>
+    value === null ? null : validateOpenAPISource(value),
+  contentChange: (value) =>
+    value === null ? null : validateContentChangeConfig(value),
+  headerRules: (value) => (value === null ? null : validateHeaderRules(value)),
+  securityHeaders: (value) =>
+    typeof value === "boolean" ? null : "must be a boolean",
+  isActive: (value) =>
+    typeof value === "boolean" ? null : "must be a boolean",
+};
+
+// Existing validators prefix messages with the field path; split it off
+function toFieldError(field: string, message: string): FieldError {
+  const match = message.match(/^(\S+) (.*)$/);
+  if (
+    match &&
+    (match[1] === field ||
+      match[1].startsWith(`${field}.`) ||
+      match[1].startsWith(`${field}[`))
+  ) {
+    return { field: match[1], message: match[2] };
+  }
+  return { field, message };
+}
+
+// Check probeConfig (and the URL where it matters) against the type
+function validateTypeConfig(input: EndpointInput): string | null {
+  switch (input.type ?? "http") {
+    case "scenario":
+      return validateScenarioConfig(input.probeConfig);
+    case "graphql":
+      return validateGraphQLConfig(input.probeConfig);
+    case "websocket":
+      return validateWebSocketConfig(input.probeConfig, input.url);
+    case "tcp":
+      return validateTCPConfig(input.probeConfig, input.url);
+    case "dns":
+      return validateDNSConfig(input.probeConfig);
+    case "heartbeat":
+      return validateHeartbeatConfig(input.probeConfig);
+    default:
+      return null;
+  }
+}
+
+// Validate a request body's shape and bounds. Unknown fields are ignored, so
+// clients can send back an endpoint as they received it.
+export function validateEndpointInput(
+  body: unknown,
+  env: Env,
+): { input: EndpointInput | null; errors: FieldError[] } {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return {
+      input: null,
+      errors: [{ field: "body", message: "must be a JSON object" }],
+    };
+  }
+
+  const raw = body as Record<string, unknown>;
+  const errors: FieldError[] = [];
+  const input: Record<string, unknown> = {};
+
+  for (const [field, validate] of Object.entries(FIELD_VALIDATORS)) {
+    if (raw[field] === undefined) continue;
+    const message = validate(raw[field], env);
+    if (message) {
+      errors.push(toFieldError(field, message));
+    } else {
+      input[field] = raw[field];
+    }
+  }
+
+  if (raw.name === undefined) {
+    errors.push({ field: "name", message: "is required" });
+  }
+
+  const type = (input.type as EndpointType | undefined) ?? "http";
+  if (URL_REQUIRED_TYPES.includes(type) && raw.url === undefined) {
+    errors.push({ field: "url", message: "is required" });
+  } else if (
+    (type === "http" || type === "graphql") &&
+    typeof input.url === "string" &&
+    !input.url.includes("{{")
+  ) {
+    try {
+      new URL(input.url);
+    } catch {
+      errors.push({ field: "url", message: "must be a valid URL" });
+    }
+  }
+
+  // Type-specific rules need a valid type and URL to check against
+  if (
+    !errors.some((error) => error.field === "type" || error.field === "url")
+  ) {
+    const configError = validateTypeConfig(input as unknown as EndpointInput);
+    if (configError) {
+      errors.push(
+        toFieldError(
+          configError.startsWith("url ") ? "url" : "probeConfig",
+          configError,
+        ),
+      );
+    }
+  }
+
+  return {
+    input: errors.length === 0 ? (input as unknown as EndpointInput) : null,
+    errors,
+  };
+}
+
+// Check every URL probes (or this API) would fetch against the URL safety
+// rules. Templated URLs are checked once resolved, at probe time.
+async function checkProbeTargets(
+  env: Env,
+  input: EndpointInput,
+): Promise<FieldError[]> {
+  const type = input.type ?? "http";
+  const targets: [string, string | undefined, string[]][] = [];
+
+  if (type === "http" || type === "graphql") {
+    targets.push(["url", input.url, HTTP_SCHEMES]);
+  }
+  if (type === "websocket") {
+    targets.push(["url", input.url, ["ws:", "wss:"]]);
+  }
+  if (type === "tcp") {
+    targets.push(["url", input.url, ["tcp:"]]);
+  }
+  if (type === "scenario") {
+    for (const [i, step] of input.probeConfig!.steps.entries()) {
+      targets.push([`probeConfig.steps[${i}].url`, step.url, HTTP_SCHEMES]);
+    }
+  }
+  if (type === "dns" && input.probeConfig!.resolverUrl) {
+    targets.push([
+      "probeConfig.resolverUrl",
+      input.probeConfig!.resolverUrl,
+      ["https:"],
+    ]);
+  }
+  if (input.authConfig) {
+    targets.push([
+      "authConfig.tokenUrl",
+      input.authConfig.tokenUrl,
+      HTTP_SCHEMES,
+    ]);
+  }
+  if (input.openApiSchema) {
+    targets.push(["openApiSchema.url", input.openApiSchema.url, HTTP_SCHEMES]);
+  }
+
+  const errors: FieldError[] = [];
+  for (const [field, url, schemes] of targets) {
+    if (url === undefined || url.includes("{{")) continue;
+
+    const reason = await checkUrlSafety(env, url, schemes);
+    if (reason) errors.push({ field, message: `is not allowed: ${reason}` });
+  }
+  return errors;
+}
+
+// Fields a full replacement (PUT) must send; null clears an optional one.
+// isActive is left out so a replacement never pauses or resumes by accident,
+// and url is required per type by validateEndpointInput.
+const REPLACEMENT_FIELDS: (keyof EndpointInput)[] = [
+  "name",
+  "type",
+  "method",
+  "headers",
+  "body",
+  "probeConfig",
+  "authConfig",
+  "retryPolicy",
+  "redirectPolicy",
+  "regions",
+  "probeIntervalMinutes",
+  "probeIntervalSeconds",
+  "timeoutSeconds",
+  "expectedStatusCodes",
+  "assertions",
+  "responseSchema",
+  "contentChange",
+  "headerRules",
+  "securityHeaders",
+];
+
+// List the fields a full replacement body leaves out (an openApiSchema
+// stands in for responseSchema)
+export function findMissingReplacementFields(body: unknown): FieldError[] {
+  if (!body || typeof body !== "object" || Array.isArray(body)) return [];
+
+  const raw = body as Record<string, unknown>;
+  return REPLACEMENT_FIELDS.filter(
+    (field) =>
+      raw[field] === undefined &&
+      !(field === "responseSchema" && raw.openApiSchema !== undefined),
+  ).map((field) => ({
+    field,
+    message:
+      "is required (PUT replaces the endpoint; use PATCH to change some fields)",
+  }));
+}
+
+// Bring values saved before the current bounds existed back within them, so
+// a stored endpoint can be used as the base of a PATCH: intervals move up to
+// the next supported one (or down to the longest, when beyond it), timeouts
+// are clamped and header values stringified
+export function normalizeLegacyInput(input: EndpointInput): EndpointInput {
+  const normalized = { ...input };
+
+  const interval = normalized.probeIntervalMinutes;
+  if (typeof interval === "number" && !SUPPORTED_INTERVALS.includes(interval)) {
+    normalized.probeIntervalMinutes =
+      SUPPORTED_INTERVALS.find((supported) => supported >= interval) ??
+      SUPPORTED_INTERVALS[SUPPORTED_INTERVALS.length - 1];
+  }
+
+  const timeout = normalized.timeoutSeconds;
+  if (typeof timeout === "number") {
+    const { min, max } = ENDPOINT_BOUNDS.timeoutSeconds;
+    normalized.timeoutSeconds = Math.min(
+      max,
+      Math.max(min, Math.round(timeout)),
+    );
+  }
+
+  if (normalized.headers && typeof normalized.headers === "object") {
+    normalized.headers = Object.fromEntries(
+      Object.entries(normalized.headers).map(([name, value]) => [
+        name,
+        typeof value === "string" ? value : String(value),
+      ]),
+    );
+  }
+
+  return normalized;
+}
+
+// Validate a request body fully: shape and bounds, probe target safety and,
+// when an OpenAPI source is given, extraction of the response schema
+export async function parseEndpointInput(
+  body: unknown,
+  env: Env,
+): Promise<{ input: EndpointInput | null; errors: FieldError[] }> {
+  const { input, errors } = validateEndpointInput(body, env);
+  if (!input) return { input, errors };
+
+  const targetErrors = await checkProbeTargets(env, input);
+  if (targetErrors.length > 0) return { input: null, errors: targetErrors };
+
+  if (input.openApiSchema) {
+    try {
+      input.responseSchema = await fetchOpenAPISchema(
+        input.openApiSchema,
+        (url) => assertSafeUrl(env, url),
+      );
+    } catch (error: any) {
+      return {
+        input: null,
+        errors: [{ field: "openApiSchema", message: error.message }],
+      };
+    }
+  }
+
+  return { input, errors: [] };
+}
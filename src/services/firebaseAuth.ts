@@ -0,0 +1,232 @@
+/**
+ * Firebase Auth Service
+ *
+ * Verifies Firebase ID tokens sent as `Authorization: Bearer <token>` and
+ * exposes the caller's user id (the token's `sub`) to route handlers
+ */
+
+import { createMiddleware } from "hono/factory";
+import type { Env } from "../index";
+
+// Google's public keys for Firebase ID tokens
+export const DEFAULT_JWKS_URL =
+  "https://www.googleapis.com/service_accounts/v1/jwk/securetoken@system.gserviceaccount.com";
+
+// Used when the JWKS response has no Cache-Control max-age (ms)
+const DEFAULT_JWKS_CACHE_MS = 60 * 60 * 1000;
+
+// Unknown key ids trigger a refetch at most this often (ms)
+const MIN_JWKS_REFRESH_MS = 60_000;
+
+// Tolerated clock difference when checking exp/iat/auth_time (seconds)
+const CLOCK_SKEW_SECONDS = 60;
+
+export class FirebaseAuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FirebaseAuthError";
+  }
+}
+
+export interface AuthUser {
+  userId: string;
+  email: string | null;
+}
+
+// Hono env for routes behind requireAuth
+export type AuthEnv = {
+  Bindings: Env;
+  Variables: { userId: string; userEmail: string | null };
+};
+
+interface FirebaseClaims {
+  aud?: unknown;
+  iss?: unknown;
+  sub?: unknown;
+  exp?: unknown;
+  iat?: unknown;
+  auth_time?: unknown;
+  email?: unknown;
+}
+
+let jwksCache: {
+  url: string;
+  keys: Map<string, CryptoKey>;
+  fetchedAt: number;
+  expiresAt: number;
+} | null = null;
+
+// Decode a base64url string into bytes
+function decodeBase64Url(input: string): Uint8Array<ArrayBuffer> {
+  const base64 = input.replace(/-/g, "+").replace(/_/g, "/");
+  const padded = base64.padEnd(Math.ceil(base64.length / 4) * 4, "=");
+  try {
+    return Uint8Array.from(atob(padded), (char) => char.charCodeAt(0));
+  } catch {
+    throw new FirebaseAuthError("Token is malformed");
+  }
+}
+
+// Decode a base64url JSON token segment
+function decodeSegment<T>(segment: string): T {
+  try {
+    return JSON.parse(new TextDecoder().decode(decodeBase64Url(segment)));
+  } catch {
+    throw new FirebaseAuthError("Token is malformed");
+  }
+}
+
+// Fetch the signing keys and import them for RS256 verification
+async function fetchSigningKeys(url: string): Promise<void> {
+  const response = await fetch(url, {
+    headers: { Accept: "application/json" },
+  });
+  if (!response.ok) {
+    throw new Error(`JWKS endpoint returned ${response.status}`);
+  }
+  const jwks = await response.json<{
+    keys?: (JsonWebKey & { kid?: string })[];
+  }>();
+
+  const keys = new Map<string, CryptoKey>();
+  for (const jwk of jwks.keys ?? []) {
+    if (!jwk.kid || jwk.kty !== "RSA") continue;
+    const key = await crypto.subtle.importKey(
+      "jwk",
+      jwk,
+      { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" },
+      false,
+      ["verify"],
+    );
+    keys.set(jwk.kid, key);
+  }
+
+  const maxAge = response.headers
+    .get("Cache-Control")
+    ?.match(/max-age=(\d+)/)?.[1];
+  const now = Date.now();
+  jwksCache = {
+    url,
+    keys,
+    fetchedAt: now,
+    expiresAt: now + (maxAge ? Number(maxAge) * 1000 : DEFAULT_JWKS_CACHE_MS),
+  };
+}
+
+// Look up a signing key by id, refreshing the cached JWKS when it has
+// expired or doesn't know the key (Google rotates keys regularly)
+async function getSigningKey(env: Env, kid: string): Promise<CryptoKey> {
+  const url = env.FIREBASE_JWKS_URL || DEFAULT_JWKS_URL;
+  const now = Date.now();
+
+  const isStale =
+    !jwksCache || jwksCache.url !== url || jwksCache.expiresAt <= now;
+  const isUnknownKid =
+    jwksCache?.keys.has(kid) === false &&
+    now - jwksCache.fetchedAt >= MIN_JWKS_REFRESH_MS;
+  if (isStale || isUnknownKid) {
+    await fetchSigningKeys(url);
+  }
+
+  const key = jwksCache!.keys.get(kid);
+  if (!key) {
+    throw new FirebaseAuthError("Token was signed with an unknown key");
+  }
+  return key;
+}
+
+// Verify a Firebase ID token's signature and claims
+export async function verifyIdToken(
+  env: Env,
+  token: string,
+): Promise<AuthUser> {
+  const projectId = env.FIREBASE_PROJECT_ID;
+  if (!projectId) {
+    throw new Error("FIREBASE_PROJECT_ID is not configured");
+  }
+
+  const segments = token.split(".");
+  if (segments.length !== 3) {
+    throw new FirebaseAuthError("Token is malformed");
+  }
+  const [headerSegment, payloadSegment, signatureSegment] = segments;
+
+  const header = decodeSegment<{ alg?: unknown; kid?: unknown }>(headerSegment);
+  if (header.alg !== "RS256" || typeof header.kid !== "string") {
+    throw new FirebaseAuthError("Token must be signed with RS256");
+  }
+
+  const key = await getSigningKey(env, header.kid);
+  const isValid = await crypto.subtle.verify(
+    "RSASSA-PKCS1-v1_5",
+    key,
+    decodeBase64Url(signatureSegment),
+    new TextEncoder().encode(`${headerSegment}.${payloadSegment}`),
+  );
+  if (!isValid) {
+    throw new FirebaseAuthError("Token signature is invalid");
+  }
+
+  const claims = decodeSegment<FirebaseClaims>(payloadSegment);
+  const now = Math.floor(Date.now() / 1000);
+
+  if (claims.aud !== projectId) {
+    throw new FirebaseAuthError("Token has the wrong audience");
+  }
+  if (claims.iss !== `https://securetoken.google.com/${projectId}`) {
+    throw new FirebaseAuthError("Token has the wrong issuer");
+  }
+  if (
+    typeof claims.exp !== "number" ||
+    claims.exp + CLOCK_SKEW_SECONDS <= now
+  ) {
+    throw new FirebaseAuthError("Token has expired");
+  }
+  if (typeof claims.iat !== "number" || claims.iat - CLOCK_SKEW_SECONDS > now) {
+    throw new FirebaseAuthError("Token was issued in the future");
+  }
+  if (
+    typeof claims.auth_time === "number" &&
+    claims.auth_time - CLOCK_SKEW_SECONDS > now
+  ) {
+    throw new FirebaseAuthError("Token was authenticated in the future");
+  }
+  if (
+    typeof claims.sub !== "string" ||
+    claims.sub.length === 0 ||
+    claims.sub.length > 128
+  ) {
+    throw new FirebaseAuthError("Token has no valid subject");
+  }
+
+  return {
+    userId: claims.sub,
+    email: typeof claims.email === "string" ? claims.email : null,
+  };
+}
+
+// Require a valid Firebase ID token; sets `userId` and `userEmail`
+export const requireAuth = createMiddleware<AuthEnv>(async (c, next) => {
+  const token = c.req.header("Authorization")?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  if (!token) {
+    return c.json(
+      { success: false, error: "Authorization bearer token required" },
+      401,
+    );
+  }
+
+  let user: AuthUser;
+  try {
+    user = await verifyIdToken(c.env, token);
+  } catch (error) {
+    if (error instanceof FirebaseAuthError) {
+      return c.json({ success: false, error: error.message }, 401);
+    }
+    console.error("Error verifying ID token:", error);
+    return c.json({ success: false, error: "Failed to verify token" }, 500);
+  }
+
+  c.set("userId", user.userId);
+  c.set("userEmail", user.email);
+  await next();
+});
@@ -0,0 +1,99 @@
+/**
+ * GraphQL Probe Service
+ *
+ * Builds GraphQL requests and inspects responses for resolver errors, since
+ * GraphQL servers usually answer HTTP 200 even when the query failed
+ */
+
+import type { Endpoint, GraphQLConfig } from "../models/types";
+import { resolveJSONPath } from "./assertionEvaluator";
+
+// Outcome of checking a GraphQL response body
+export interface GraphQLCheck {
+  ok: boolean;
+  errorMessage?: string;
+  errors?: string[];
+}
+
+// Read the GraphQL config stored on an endpoint
+export function parseGraphQLConfig(endpoint: Endpoint): GraphQLConfig {
+  return typeof endpoint.probe_config === "string"
+    ? JSON.parse(endpoint.probe_config)
+    : (endpoint.probe_config as GraphQLConfig);
+}
+
+// Serialize the request body sent to the GraphQL endpoint
+export function buildGraphQLBody(config: GraphQLConfig): string {
+  return JSON.stringify({
+    query: config.query,
+    variables: config.variables ?? {},
+    ...(config.operationName ? { operationName: config.operationName } : {}),
+  });
+}
+
+// Fail on a non-empty errors array or a null value at the configured data path
+export function checkGraphQLResponse(
+  config: GraphQLConfig,
+  bodyText: string,
+): GraphQLCheck {
+  let payload: any;
+  try {
+    payload = JSON.parse(bodyText);
+  } catch {
+    return { ok: false, errorMessage: "GraphQL response is not valid JSON" };
+  }
+
+  if (Array.isArray(payload?.errors) && payload.errors.length > 0) {
+    const errors: string[] = payload.errors.map((error: any) =>
+      typeof error?.message === "string"
+        ? error.message
+        : JSON.stringify(error),
+    );
+    return {
+      ok: false,
+      errorMessage: `GraphQL error: ${errors.join("; ")}`,
+      errors,
+    };
+  }
+
+  const dataPath = config.dataPath || "$.data";
+  const resolved = resolveJSONPath(payload, dataPath);
+  if (!resolved.found || resolved.value === null) {
+    return { ok: false, errorMessage: `GraphQL ${dataPath} is null` };
+  }
+
+  return { ok: true };
+}
+
+// Validate a user-supplied GraphQL config, returning an error message if invalid
+export function validateGraphQLConfig(input: unknown): string | null {
+  const config = input as Partial<GraphQLConfig> | null;
+  if (!config || typeof config !== "object") {
+    return "probeConfig must be an object";
+  }
+  if (typeof config.query !== "string" || !config.query.trim()) {
+    return "probeConfig.query is required";
+  }
+  if (
+    config.variables !== undefined &&
+    (config.variables === null ||
+      typeof config.variables !== "object" ||
+      Array.isArray(config.variables))
+  ) {
+    return "probeConfig.variables must be an object";
+  }
+  if (
+    config.operationName !== undefined &&
+    typeof config.operationName !== "string"
+  ) {
+    return "probeConfig.operationName must be a string";
+  }
+  if (
+    config.dataPath !== undefined &&
+    (typeof config.dataPath !== "string" ||
+      !config.dataPath.startsWith("$.data"))
+  ) {
+    return "probeConfig.dataPath must be a JSON path under $.data";
+  }
+  return null;
+}
@@ -0,0 +1,129 @@
+/**
+ * Header Rules Service
+ *
+ * Checks response headers against endpoint rules (exists, equals, matches,
+ * absent), plus a ready-made security-header preset
+ */
+
+import type { AssertionResult, Endpoint, HeaderRule } from "../models/types";
+
+const HEADER_CHECKS = ["exists", "absent", "equals", "matches"];
+
+// Standard security headers enabled with the securityHeaders flag
+export const SECURITY_HEADER_RULES: HeaderRule[] = [
+  {
+    header: "Strict-Transport-Security",
+    check: "matches",
+    pattern: "max-age=\\d+",
+    flags: "i",
+  },
+  { header: "X-Content-Type-Options", check: "equals", value: "nosniff" },
+  { header: "X-Frame-Options", check: "exists" },
+  { header: "Content-Security-Policy", check: "exists" },
+  { header: "Referrer-Policy", check: "exists" },
+  { header: "X-Powered-By", check: "absent" },
+];
+
+// Custom rules plus the security preset when enabled
+export function resolveHeaderRules(endpoint: Endpoint): HeaderRule[] {
+  const custom: HeaderRule[] =
+    typeof endpoint.header_rules === "string"
+      ? JSON.parse(endpoint.header_rules)
+      : (endpoint.header_rules ?? []);
+  return endpoint.security_headers
+    ? [...SECURITY_HEADER_RULES, ...custom]
+    : custom;
+}
+
+// Describe a rule for error messages
+function describeHeaderRule(rule: HeaderRule): string {
+  switch (rule.check) {
+    case "exists":
+      return `header ${rule.header} exists`;
+    case "absent":
+      return `header ${rule.header} is absent`;
+    case "equals":
+      return `header ${rule.header} equals ${JSON.stringify(rule.value)}`;
+    case "matches":
+      return `header ${rule.header} matches /${rule.pattern}/${rule.flags ?? ""}`;
+  }
+}
+
+// Evaluate a single rule against the response headers
+function evaluateHeaderRule(
+  rule: HeaderRule,
+  headers: Headers,
+): AssertionResult {
+  const assertion = describeHeaderRule(rule);
+  const actual = headers.get(rule.header);
+
+  switch (rule.check) {
+    case "exists":
+      return {
+        assertion,
+        passed: actual !== null,
+        message: actual === null ? "missing" : undefined,
+      };
+    case "absent":
+      return {
+        assertion,
+        passed: actual === null,
+        actual: actual ?? undefined,
+      };
+    case "equals":
+      return {
+        assertion,
+        passed: actual?.trim() === rule.value,
+        actual: actual ?? undefined,
+        message: actual === null ? "missing" : undefined,
+      };
+    case "matches":
+      return {
+        assertion,
+        passed:
+          actual !== null && new RegExp(rule.pattern, rule.flags).test(actual),
+        actual: actual ?? undefined,
+        message: actual === null ? "missing" : undefined,
+      };
+  }
+}
+
+// Evaluate all rules against the response headers
+export function evaluateHeaderRules(
+  rules: HeaderRule[],
+  headers: Headers,
+): AssertionResult[] {
+  return rules.map((rule) => evaluateHeaderRule(rule, headers));
+}
+
+// Validate user-supplied header rules, returning an error message if invalid
+export function validateHeaderRules(input: unknown): string | null {
+  if (!Array.isArray(input)) {
+    return "headerRules must be an array";
+  }
+
+  for (const [i, rule] of input.entries()) {
+    const prefix = `headerRules[${i}]`;
+    if (!rule || typeof rule !== "object") {
+      return `${prefix} must be an object`;
+    }
+    if (typeof rule.header !== "string" || !rule.header) {
+      return `${prefix}.header is required`;
+    }
+    if (!HEADER_CHECKS.includes(rule.check)) {
+      return `${prefix}.check must be one of ${HEADER_CHECKS.join(", ")}`;
+    }
+    if (rule.check === "equals" && typeof rule.value !== "string") {
+      return `${prefix}.value must be a string`;
+    }
+    if (rule.check === "matches") {
+      try {
+        new RegExp(rule.pattern, rule.flags);
+      } catch {
+        return `${prefix}.pattern must be a valid regular expression`;
+      }
+    }
+  }
+
+  return null;
+}
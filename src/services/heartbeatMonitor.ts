@@ -0,0 +1,263 @@
+/**
+ * Heartbeat Monitor Service
+ *
+ * Push-based monitoring for jobs that can't be probed from outside: jobs
+ * ping a secret URL, and the scheduled handler opens an incident when a
+ * ping is later than the expected period plus grace time
+ */
+
+import type { Env } from "../index";
+import type {
+  Endpoint,
+  HeartbeatConfig,
+  HeartbeatState,
+  Incident,
+  ProbeResult,
+} from "../models/types";
+import { storeProbeResults, updateHealthSummary } from "./probeEngine";
+import { createIncident, resolveIncident } from "./degradationDetector";
+import { notifyEndpointUsers } from "./pushService";
+
+export const HEARTBEAT_STATES: HeartbeatState[] = ["start", "success", "fail"];
+
+// Region recorded on ping results (pings aren't probed from a region)
+const HEARTBEAT_REGION = "heartbeat";
+
+// Bounds for the expected period and grace time (seconds)
+const MIN_PERIOD_SECONDS = 60;
+const MAX_PERIOD_SECONDS = 7 * 24 * 60 * 60;
+
+// A ping reported by a job
+export interface HeartbeatPing {
+  state: HeartbeatState;
+  durationMs?: number;
+  message?: string;
+}
+
+// Generate the secret token used in the ping URL
+export function generateHeartbeatToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+// Read the heartbeat config stored on an endpoint
+function parseHeartbeatConfig(endpoint: Endpoint): HeartbeatConfig {
+  return typeof endpoint.probe_config === "string"
+    ? JSON.parse(endpoint.probe_config)
+    : (endpoint.probe_config as HeartbeatConfig);
+}
+
+// Time since the run's `start` ping, when the latest ping recorded is one
+async function runDurationMs(
+  db: D1Database,
+  endpointId: string,
+  now: string,
+): Promise<number | undefined> {
+  const latest = await db
+    .prepare(
+      `
+    SELECT timestamp, details FROM probe_results
+    WHERE endpoint_id = ? AND region = ?
+    ORDER BY timestamp DESC
+    LIMIT 1
+  `,
+    )
+    .bind(endpointId, HEARTBEAT_REGION)
+    .first<{ timestamp: string; details: string | null }>();
+
+  const details = latest?.details ? JSON.parse(latest.details) : null;
+  if (details?.heartbeat?.state !== "start") return undefined;
+  return Date.parse(now) - Date.parse(latest!.timestamp);
+}
+
+// Record a ping. `success` resets the lateness clock and resolves an open
+// incident; `fail` opens one (or keeps it open). `start` is stored to mark
+// the run as begun but counts towards neither (RUN_OUTCOME_RESULTS_FILTER
+// keeps it out of uptime); the next ping's duration defaults to the time
+// since it. Returns false when the token is unknown.
+export async function recordHeartbeat(
+  env: Env,
+  token: string,
+  ping: HeartbeatPing,
+): Promise<boolean> {
+  const endpoint = await env.DB.prepare(
+    "SELECT * FROM endpoints WHERE heartbeat_token = ? AND type = 'heartbeat'",
+  )
+    .bind(token)
+    .first<Endpoint>();
+
+  if (!endpoint) {
+    return false;
+  }
+
+  const now = new Date().toISOString();
+
+  if (ping.state === "start") {
+    await storeProbeResults(env.DB, [
+      {
+        id: crypto.randomUUID(),
+        endpoint_id: endpoint.id,
+        timestamp: now,
+        status: "success",
+        details: { heartbeat: { state: "start" } },
+        region: HEARTBEAT_REGION,
+      },
+    ]);
+    return true;
+  }
+
+  const failed = ping.state === "fail";
+  const durationMs =
+    ping.durationMs ?? (await runDurationMs(env.DB, endpoint.id, now));
+
+  const result: ProbeResult = {
+    id: crypto.randomUUID(),
+    endpoint_id: endpoint.id,
+    timestamp: now,
+    status: failed ? "error" : "success",
+    latency_ms: durationMs,
+    error_message: failed ? ping.message || "Job reported failure" : undefined,
+    details: {
+      heartbeat: { state: ping.state, durationMs },
+    },
+    region: HEARTBEAT_REGION,
+  };
+
+  await storeProbeResults(env.DB, [result]);
+  if (!failed) {
+    await env.DB.prepare("UPDATE endpoints SET last_ping_at = ? WHERE id = ?")
+      .bind(now, endpoint.id)
+      .run();
+  }
+
+  const { periodSeconds, graceSeconds } = parseHeartbeatConfig(endpoint);
+  await updateHealthSummary(
+    env.DB,
+    env.STATUS_KV,
+    endpoint.id,
+    result,
+    Math.max(300, (periodSeconds + graceSeconds) * 2),
+  );
+
+  const activeIncident = await env.DB.prepare(
+    `
+    SELECT * FROM incidents
+    WHERE endpoint_id = ? AND status != 'resolved'
+    LIMIT 1
+  `,
+  )
+    .bind(endpoint.id)
+    .first<Incident>();
+
+  if (!failed && activeIncident) {
+    const resolved = await resolveIncident(
+      env.DB,
+      activeIncident,
+      "Heartbeat received.",
+    );
+    await notifyEndpointUsers(env, endpoint.id, resolved, "recovery");
+  }
+
+  if (failed && !activeIncident) {
+    const incident: Incident = {
+      id: crypto.randomUUID(),
+      endpoint_id: endpoint.id,
+      type: "high_error_rate",
+      severity: "major",
+      status: "active",
+      started_at: now,
+      resolved_at: undefined,
+      title: `${endpoint.name} reported a failed run`,
+      description: result.error_message,
+      affected_regions: JSON.stringify([HEARTBEAT_REGION]),
+      created_at: now,
+      updated_at: now,
+    };
+
+    await createIncident(env.DB, incident);
+    await notifyEndpointUsers(env, endpoint.id, incident, "alert");
+  }
+
+  return true;
+}
+
+// Open incidents for active heartbeat endpoints whose last ping is overdue
+export async function checkHeartbeats(
+  env: Env,
+  now: Date = new Date(),
+): Promise<number> {
+  // Endpoints that never pinged are measured from their creation time
+  const { results: overdue } = await env.DB.prepare(
+    `
+    SELECT e.* FROM endpoints e
+    WHERE e.type = 'heartbeat'
+      AND e.is_active = 1
+      AND datetime(
+        COALESCE(e.last_ping_at, e.created_at),
+        '+' || (json_extract(e.probe_config, '$.periodSeconds')
+          + json_extract(e.probe_config, '$.graceSeconds')) || ' seconds'
+      ) < datetime(?)
+      AND NOT EXISTS (
+        SELECT 1 FROM incidents i
+        WHERE i.endpoint_id = e.id AND i.status != 'resolved'
+      )
+  `,
+  )
+    .bind(now.toISOString())
+    .all<Endpoint>();
+
+  for (const endpoint of overdue) {
+    try {
+      const { periodSeconds, graceSeconds } = parseHeartbeatConfig(endpoint);
+      const lastPing = endpoint.last_ping_at;
+
+      const incident: Incident = {
+        id: crypto.randomUUID(),
+        endpoint_id: endpoint.id,
+        type: "timeout",
+        severity: "major",
+        status: "active",
+        started_at: now.toISOString(),
+        resolved_at: undefined,
+        title: `${endpoint.name} missed its heartbeat`,
+        description: `${lastPing ? `No ping since ${lastPing}` : "No ping received yet"}. Expected every ${periodSeconds}s with ${graceSeconds}s grace.`,
+        affected_regions: JSON.stringify([HEARTBEAT_REGION]),
+        created_at: now.toISOString(),
+        updated_at: now.toISOString(),
+      };
+
+      await createIncident(env.DB, incident);
+      await notifyEndpointUsers(env, endpoint.id, incident, "alert");
+    } catch (error) {
+      console.error(`Error checking heartbeat for ${endpoint.name}:`, error);
+    }
+  }
+
+  if (overdue.length > 0) {
+    console.log(`Opened ${overdue.length} missed-heartbeat incidents`);
+  }
+  return overdue.length;
+}
+
+// Validate a user-supplied heartbeat config, returning an error message if invalid
+export function validateHeartbeatConfig(input: unknown): string | null {
+  const config = input as Partial<HeartbeatConfig> | null;
+  if (!config || typeof config !== "object") {
+    return "probeConfig must be an object";
+  }
+  if (
+    !Number.isInteger(config.periodSeconds) ||
+    config.periodSeconds! < MIN_PERIOD_SECONDS ||
+    config.periodSeconds! > MAX_PERIOD_SECONDS
+  ) {
+    return `probeConfig.periodSeconds must be an integer between ${MIN_PERIOD_SECONDS} and ${MAX_PERIOD_SECONDS}`;
+  }
+  if (
+    !Number.isInteger(config.graceSeconds) ||
+    config.graceSeconds! < 0 ||
+    config.graceSeconds! > MAX_PERIOD_SECONDS
+  ) {
+    return `probeConfig.graceSeconds must be an integer between 0 and ${MAX_PERIOD_SECONDS}`;
+  }
+  return null;
+}
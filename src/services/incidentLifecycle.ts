@@ -251,7 +251,7 @@ export async function getIncidentStats(
     FROM incidents i
     INNER JOIN endpoints e ON i.endpoint_id = e.id
     WHERE e.user_id = ?
-      AND i.created_at >= datetime('now', '-${daysBack} days')
+      AND datetime(i.created_at) >= datetime('now', '-${daysBack} days')
   `,
     )
     .bind(userId)
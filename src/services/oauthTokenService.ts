@@ -0,0 +1,176 @@
+/**
+ * OAuth2 Token Service
+ *
+ * Fetches and caches client-credentials access tokens used by probes
+ */
+
+import type { OAuth2ClientCredentialsConfig } from "../models/types";
+import { DEFAULT_REDIRECT_POLICY, fetchWithRedirects } from "./redirectPolicy";
+import { BlockedTargetError } from "./urlSafety";
+
+// Refresh tokens this long before they expire
+const EXPIRY_SAFETY_SECONDS = 30;
+
+// KV rejects TTLs shorter than 60 seconds
+const MIN_KV_TTL_SECONDS = 60;
+
+// Used when the token endpoint omits expires_in
+const DEFAULT_EXPIRES_IN_SECONDS = 300;
+
+// Raised when the token endpoint itself fails, as opposed to the monitored API
+export class TokenEndpointError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode?: number,
+  ) {
+    super(message);
+    this.name = "TokenEndpointError";
+  }
+}
+
+interface CachedToken {
+  accessToken: string;
+  expiresAt: number; // epoch ms
+}
+
+function cacheKey(endpointId: string): string {
+  return `oauth:${endpointId}`;
+}
+
+// Request a new token from the token endpoint; `checkUrl` vets the token URL
+// and every redirect hop
+async function requestToken(
+  config: OAuth2ClientCredentialsConfig,
+  timeoutSeconds: number,
+  checkUrl?: (url: string) => Promise<void>,
+): Promise<CachedToken> {
+  const form = new URLSearchParams({ grant_type: "client_credentials" });
+  if (config.scope) form.set("scope", config.scope);
+  if (config.audience) form.set("audience", config.audience);
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeoutSeconds * 1000);
+
+  let response: Response;
+  try {
+    ({ response } = await fetchWithRedirects(
+      config.tokenUrl,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/x-www-form-urlencoded",
+          Accept: "application/json",
+          Authorization: `Basic ${btoa(`${config.clientId}:${config.clientSecret}`)}`,
+          "User-Agent": "PulseAPI-Probe/1.0",
+        },
+        body: form.toString(),
+        signal: controller.signal,
+      },
+      DEFAULT_REDIRECT_POLICY,
+      checkUrl,
+    ));
+  } catch (error: any) {
+    if (error instanceof BlockedTargetError) throw error;
+    throw new TokenEndpointError(
+      error.name === "AbortError"
+        ? "Token request timed out"
+        : `Token request failed: ${error.message}`,
+    );
+  } finally {
+    clearTimeout(timeoutId);
+  }
+
+  if (!response.ok) {
+    throw new TokenEndpointError(
+      `Token endpoint returned ${response.status}`,
+      response.status,
+    );
+  }
+
+  const payload = await response
+    .json<{ access_token?: string; expires_in?: number }>()
+    .catch(() => null);
+
+  if (!payload?.access_token) {
+    throw new TokenEndpointError(
+      "Token endpoint response has no access_token",
+      response.status,
+    );
+  }
+
+  const expiresIn = payload.expires_in ?? DEFAULT_EXPIRES_IN_SECONDS;
+
+  return {
+    accessToken: payload.access_token,
+    expiresAt: Date.now() + expiresIn * 1000,
+  };
+}
+
+// Get a valid access token, from the KV cache unless a refresh is forced
+export async function getAccessToken(
+  kv: KVNamespace,
+  endpointId: string,
+  config: OAuth2ClientCredentialsConfig,
+  options: {
+    forceRefresh?: boolean;
+    timeoutSeconds?: number;
+    checkUrl?: (url: string) => Promise<void>;
+  } = {},
+): Promise<string> {
+  if (!options.forceRefresh) {
+    const cached = await kv.get<CachedToken>(cacheKey(endpointId), "json");
+    if (
+      cached &&
+      cached.expiresAt - EXPIRY_SAFETY_SECONDS * 1000 > Date.now()
+    ) {
+      return cached.accessToken;
+    }
+  }
+
+  const token = await requestToken(
+    config,
+    options.timeoutSeconds ?? 10,
+    options.checkUrl,
+  );
+
+  const ttlSeconds = Math.floor(
+    (token.expiresAt - Date.now()) / 1000 - EXPIRY_SAFETY_SECONDS,
+  );
+  if (ttlSeconds >= MIN_KV_TTL_SECONDS) {
+    await kv.put(cacheKey(endpointId), JSON.stringify(token), {
+      expirationTtl: ttlSeconds,
+    });
+  }
+
+  return token.accessToken;
+}
+
+// Drop a cached token (e.g. when the endpoint's auth config changes)
+export async function invalidateAccessToken(
+  kv: KVNamespace,
+  endpointId: string,
+): Promise<void> {
+  await kv.delete(cacheKey(endpointId));
+}
+
+// Validate a user-supplied auth config, returning an error message if invalid
+export function validateAuthConfig(input: unknown): string | null {
+  const config = input as Partial<OAuth2ClientCredentialsConfig> | null;
+  if (!config || typeof config !== "object") {
+    return "authConfig must be an object";
+  }
+  if (config.type !== "oauth2_client_credentials") {
+    return 'authConfig.type must be "oauth2_client_credentials"';
+  }
+  for (const field of ["tokenUrl", "clientId", "clientSecret"] as const) {
+    if (typeof config[field] !== "string" || !config[field]) {
+      return `authConfig.${field} is required`;
+    }
+  }
+  try {
+    new URL(config.tokenUrl!);
+  } catch {
+    return "authConfig.tokenUrl must be a valid URL";
+  }
+  return null;
+}
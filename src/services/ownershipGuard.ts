@@ -0,0 +1,56 @@
+/**
+ * Ownership Guard
+ *
+ * Route middleware that checks the resource named in the path belongs to
+ * the authenticated user. Resources owned by someone else get the same 404
+ * as missing ones, so ids can't be probed for existence.
+ */
+
+import { createMiddleware } from "hono/factory";
+import type { AuthEnv } from "./firebaseAuth";
+
+// How each resource type is traced back to its owner
+const OWNERSHIP_CHECKS = {
+  endpoint: {
+    query: "SELECT 1 FROM endpoints WHERE id = ? AND user_id = ?",
+    notFound: "Endpoint not found",
+  },
+  incident: {
+    query: `
+      SELECT 1 FROM incidents i
+      INNER JOIN endpoints e ON i.endpoint_id = e.id
+      WHERE i.id = ? AND e.user_id = ?
+    `,
+    notFound: "Incident not found",
+  },
+};
+
+export type OwnedResource = keyof typeof OWNERSHIP_CHECKS;
+
+// Require that the resource whose id is in path parameter `param` belongs to
+// the caller; must run after requireAuth
+export function requireOwnership(resource: OwnedResource, param: string) {
+  const { query, notFound } = OWNERSHIP_CHECKS[resource];
+
+  return createMiddleware<AuthEnv>(async (c, next) => {
+    const resourceId = c.req.param(param);
+
+    let owned: unknown;
+    try {
+      owned = await c.env.DB.prepare(query)
+        .bind(resourceId, c.get("userId"))
+        .first();
+    } catch (error) {
+      console.error(`Error checking ${resource} ownership:`, error);
+      return c.json(
+        { success: false, error: `Failed to fetch ${resource}` },
+        500,
+      );
+    }
+
+    if (!owned) {
+      return c.json({ success: false, error: notFound }, 404);
+    }
+    await next();
+  });
+}
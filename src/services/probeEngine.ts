@@ -7,56 +7,197 @@
 import type { Env } from "../index";
 import type {
   Endpoint,
+  EndpointAuthConfig,
+  ProbeAssertion,
+  ProbeAttempt,
   ProbeResult,
   EndpointHealthSummary,
 } from "../models/types";
-
-interface ProbeConfig {
+import {
+  checkForDegradation,
+  checkForRecovery,
+  checkForSchemaDrift,
+  createIncident,
+  MONITORED_API_RESULTS_FILTER,
+  RUN_OUTCOME_RESULTS_FILTER,
+  type RecentProbe,
+} from "./degradationDetector";
+import { notifyEndpointChange, notifyEndpointUsers } from "./pushService";
+import {
+  evaluateAssertions,
+  formatAssertionFailures,
+} from "./assertionEvaluator";
+import {
+  computeNextProbeAt,
+  getDueEndpoints,
+  nextProbeStatement,
+  planProbeSlots,
+} from "./probeScheduler";
+import { probeScenario } from "./scenarioProbe";
+import { probeWebSocket } from "./websocketProbe";
+import { probeTCP } from "./tcpProbe";
+import { checkForRecordChange, probeDNS } from "./dnsProbe";
+import { validateAgainstSchema } from "./schemaValidator";
+import {
+  checkForContentChange,
+  hashContent,
+  normalizeContent,
+  parseContentChangeConfig,
+} from "./contentChange";
+import { evaluateHeaderRules, resolveHeaderRules } from "./headerRules";
+import {
+  buildGraphQLBody,
+  checkGraphQLResponse,
+  parseGraphQLConfig,
+  type GraphQLCheck,
+} from "./graphqlProbe";
+import { getAccessToken, TokenEndpointError } from "./oauthTokenService";
+import { createSecretResolver, SecretResolutionError } from "./secretVault";
+import { parseRetryPolicy, shouldRetry } from "./retryPolicy";
+import {
+  checkFinalUrl,
+  fetchWithRedirects,
+  parseRedirectPolicy,
+  RedirectLimitError,
+} from "./redirectPolicy";
+import { getEndpointRegions, probeFromRegion } from "./regionalExecutor";
+import { assertSafeUrl, BlockedTargetError } from "./urlSafety";
+
+export interface ProbeConfig {
   timeout: number;
   region: string;
+  env: Env;
+  captureResponse?: boolean; // Attach headers and body (on-demand probes)
+}
+
+// Bodies longer than this are truncated in response previews
+const MAX_PREVIEW_BODY_CHARS = 16 * 1024;
+
+// Copy response headers into a plain object
+function headersToObject(headers: Headers): Record<string, string> {
+  const result: Record<string, string> = {};
+  headers.forEach((value, name) => {
+    result[name] = value;
+  });
+  return result;
+}
+
+// Wait for the given number of milliseconds
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
-// Perform a single probe on an endpoint
-async function probeEndpoint(
+// Perform a single probe attempt on an endpoint
+async function probeOnce(
   endpoint: Endpoint,
   config: ProbeConfig,
 ): Promise<ProbeResult> {
+  if (endpoint.type === "scenario") {
+    return probeScenario(endpoint, config);
+  }
+  if (endpoint.type === "websocket") {
+    return probeWebSocket(endpoint, config);
+  }
+  if (endpoint.type === "tcp") {
+    return probeTCP(endpoint, config);
+  }
+  if (endpoint.type === "dns") {
+    return probeDNS(endpoint, config);
+  }
+
   const id = crypto.randomUUID();
   const timestamp = new Date().toISOString();
 
   const controller = new AbortController();
   const timeoutId = setTimeout(() => controller.abort(), config.timeout * 1000);
 
-  try {
-    const startTime = performance.now();
+  const resolveSecrets = createSecretResolver(config.env, endpoint.user_id);
 
-    const headers: HeadersInit = {
+  try {
+    const headers: Record<string, string> = {
       "User-Agent": "PulseAPI-Probe/1.0",
     };
 
-    // Add custom headers if defined
+    // Add custom headers if defined, resolving {{secret.NAME}} references
     if (endpoint.headers) {
-      const customHeaders =
+      const customHeaders: Record<string, string> =
         typeof endpoint.headers === "string"
           ? JSON.parse(endpoint.headers)
           : endpoint.headers;
-      Object.assign(headers, customHeaders);
+      for (const [key, value] of Object.entries(customHeaders)) {
+        headers[key] = await resolveSecrets(value);
+      }
     }
 
-    const response = await fetch(endpoint.url, {
-      method: endpoint.method,
-      headers,
-      body:
-        endpoint.method !== "GET" && endpoint.method !== "HEAD"
-          ? endpoint.body
-          : undefined,
-      signal: controller.signal,
-    });
+    // GraphQL queries are always POSTed as JSON
+    const graphql =
+      endpoint.type === "graphql" ? parseGraphQLConfig(endpoint) : null;
+    const method = graphql ? "POST" : endpoint.method;
+    if (graphql) {
+      headers["Content-Type"] ??= "application/json";
+    }
+
+    const url = await resolveSecrets(endpoint.url);
+    const rawBody = graphql ? buildGraphQLBody(graphql) : endpoint.body;
+    const body = rawBody ? await resolveSecrets(rawBody) : undefined;
+
+    let authConfig: EndpointAuthConfig | null =
+      typeof endpoint.auth_config === "string"
+        ? JSON.parse(endpoint.auth_config)
+        : (endpoint.auth_config ?? null);
+    if (authConfig) {
+      authConfig = {
+        ...authConfig,
+        clientId: await resolveSecrets(authConfig.clientId),
+        clientSecret: await resolveSecrets(authConfig.clientSecret),
+      };
+    }
+
+    const redirectPolicy = parseRedirectPolicy(endpoint);
+
+    const sendRequest = async (forceTokenRefresh: boolean) => {
+      if (authConfig) {
+        const token = await getAccessToken(
+          config.env.STATUS_KV,
+          endpoint.id,
+          authConfig,
+          {
+            forceRefresh: forceTokenRefresh,
+            timeoutSeconds: config.timeout,
+            checkUrl: (tokenUrl) => assertSafeUrl(config.env, tokenUrl),
+          },
+        );
+        headers["Authorization"] = `Bearer ${token}`;
+      }
 
-    const endTime = performance.now();
-    const latencyMs = endTime - startTime;
+      const startTime = performance.now();
+
+      const { response, hops, finalUrl } = await fetchWithRedirects(
+        url,
+        {
+          method,
+          headers,
+          body: method !== "GET" && method !== "HEAD" ? body : undefined,
+          signal: controller.signal,
+        },
+        redirectPolicy,
+        (hopUrl) => assertSafeUrl(config.env, hopUrl),
+      );
+
+      return {
+        response,
+        hops,
+        finalUrl,
+        latencyMs: performance.now() - startTime,
+      };
+    };
 
-    clearTimeout(timeoutId);
+    let { response, hops, finalUrl, latencyMs } = await sendRequest(false);
+
+    // A rejected token gets one refresh-and-retry
+    if (authConfig && response.status === 401) {
+      ({ response, hops, finalUrl, latencyMs } = await sendRequest(true));
+    }
 
     // Parse expected status codes
     const expectedCodes =
@@ -64,7 +205,87 @@ async function probeEndpoint(
         ? JSON.parse(endpoint.expected_status_codes)
         : endpoint.expected_status_codes || [200, 201, 204];
 
-    const isSuccess = expectedCodes.includes(response.status);
+    // Parse response assertions
+    const assertions: ProbeAssertion[] =
+      typeof endpoint.assertions === "string"
+        ? JSON.parse(endpoint.assertions)
+        : endpoint.assertions || [];
+
+    // Parse the response contract, if any
+    const responseSchema =
+      typeof endpoint.response_schema === "string"
+        ? JSON.parse(endpoint.response_schema)
+        : (endpoint.response_schema ?? null);
+
+    const contentChange = parseContentChangeConfig(endpoint);
+
+    const statusOk = expectedCodes.includes(response.status);
+
+    // Body checks only run once the status code is acceptable
+    const needsBody =
+      statusOk &&
+      (graphql !== null ||
+        responseSchema !== null ||
+        contentChange !== null ||
+        assertions.length > 0);
+    const responseText =
+      needsBody || config.captureResponse ? await response.text() : undefined;
+    const bodyText = needsBody ? responseText : undefined;
+
+    // Normalized body and its hash for content-change detection
+    const contentSnapshot =
+      contentChange && bodyText !== undefined
+        ? normalizeContent(contentChange, bodyText)
+        : undefined;
+    const contentHash =
+      contentSnapshot !== undefined
+        ? await hashContent(contentSnapshot)
+        : undefined;
+
+    // Contract breaks are tracked as schema drift, not as probe failures
+    const schemaViolations =
+      responseSchema !== null && bodyText !== undefined
+        ? validateAgainstSchema(responseSchema, bodyText)
+        : undefined;
+
+    const graphqlCheck: GraphQLCheck | undefined =
+      graphql && bodyText !== undefined
+        ? checkGraphQLResponse(graphql, bodyText)
+        : undefined;
+    const graphqlOk = graphqlCheck?.ok ?? true;
+
+    const assertionResults =
+      bodyText !== undefined && assertions.length > 0
+        ? evaluateAssertions(assertions, bodyText)
+        : undefined;
+
+    // Header rules are checked on every response
+    const headerRules = resolveHeaderRules(endpoint);
+    const headerChecks =
+      headerRules.length > 0
+        ? evaluateHeaderRules(headerRules, response.headers)
+        : undefined;
+
+    const finalUrlCheck = checkFinalUrl(redirectPolicy, finalUrl);
+
+    clearTimeout(timeoutId);
+
+    const checks = [
+      ...(finalUrlCheck ? [finalUrlCheck] : []),
+      ...(headerChecks ?? []),
+      ...(assertionResults ?? []),
+    ];
+    const assertionsOk = checks.every((r) => r.passed);
+    const isSuccess = statusOk && graphqlOk && assertionsOk;
+    const details = {
+      ...(assertionResults ? { assertions: assertionResults } : {}),
+      ...(headerChecks ? { headerChecks } : {}),
+      ...(graphqlCheck?.errors ? { graphqlErrors: graphqlCheck.errors } : {}),
+      ...(schemaViolations ? { schemaViolations } : {}),
+      ...(contentHash ? { contentHash } : {}),
+      ...(hops.length > 0 ? { redirects: hops, finalUrl } : {}),
+      ...(finalUrlCheck ? { finalUrlCheck } : {}),
+    };
 
     return {
       id,
@@ -73,14 +294,93 @@ async function probeEndpoint(
       status: isSuccess ? "success" : "error",
       latency_ms: latencyMs,
       status_code: response.status,
-      error_message: isSuccess
-        ? undefined
-        : `Unexpected status: ${response.status}`,
+      error_message: !statusOk
+        ? `Unexpected status: ${response.status}`
+        : !graphqlOk
+          ? graphqlCheck!.errorMessage
+          : !assertionsOk
+            ? formatAssertionFailures(checks)
+            : undefined,
+      error_category: !statusOk
+        ? "http_status"
+        : !graphqlOk
+          ? "graphql"
+          : !assertionsOk
+            ? "assertion"
+            : undefined,
+      details: Object.keys(details).length > 0 ? details : undefined,
       region: config.region,
+      content_snapshot: contentSnapshot,
+      response_preview:
+        responseText !== undefined && config.captureResponse
+          ? {
+              headers: headersToObject(response.headers),
+              body: responseText.slice(0, MAX_PREVIEW_BODY_CHARS),
+              bodyTruncated: responseText.length > MAX_PREVIEW_BODY_CHARS,
+            }
+          : undefined,
     };
   } catch (error: any) {
     clearTimeout(timeoutId);
 
+    if (error instanceof SecretResolutionError) {
+      return {
+        id,
+        endpoint_id: endpoint.id,
+        timestamp,
+        status: "error",
+        latency_ms: undefined,
+        status_code: undefined,
+        error_message: error.message,
+        error_category: "secret",
+        region: config.region,
+      };
+    }
+
+    if (error instanceof TokenEndpointError) {
+      return {
+        id,
+        endpoint_id: endpoint.id,
+        timestamp,
+        status: "error",
+        latency_ms: undefined,
+        status_code: error.statusCode,
+        error_message: error.message,
+        error_category: "auth_token",
+        region: config.region,
+      };
+    }
+
+    if (error instanceof BlockedTargetError) {
+      return {
+        id,
+        endpoint_id: endpoint.id,
+        timestamp,
+        status: "error",
+        latency_ms: undefined,
+        status_code: undefined,
+        error_message: error.message,
+        error_category: "blocked",
+        region: config.region,
+      };
+    }
+
+    if (error instanceof RedirectLimitError) {
+      const lastHop = error.hops[error.hops.length - 1];
+      return {
+        id,
+        endpoint_id: endpoint.id,
+        timestamp,
+        status: "error",
+        latency_ms: undefined,
+        status_code: lastHop?.status,
+        error_message: error.message,
+        error_category: "redirect",
+        details: { redirects: error.hops },
+        region: config.region,
+      };
+    }
+
     const isTimeout = error.name === "AbortError";
 
     return {
@@ -91,21 +391,55 @@ async function probeEndpoint(
       latency_ms: undefined,
       status_code: undefined,
       error_message: isTimeout ? "Request timed out" : error.message,
+      error_category: isTimeout ? "timeout" : "network",
       region: config.region,
     };
   }
 }
 
-// Store probe result in D1
-async function storeProbeResult(
+// Probe an endpoint, re-checking failures per its retry policy before
+// settling on a result
+export async function probeEndpoint(
+  endpoint: Endpoint,
+  config: ProbeConfig,
+): Promise<ProbeResult> {
+  const policy = parseRetryPolicy(endpoint);
+  const attempts: ProbeAttempt[] = [];
+
+  for (let attempt = 0; ; attempt++) {
+    const result = await probeOnce(endpoint, config);
+    attempts.push({
+      status: result.status,
+      latencyMs: result.latency_ms,
+      statusCode: result.status_code,
+      errorMessage: result.error_message,
+    });
+
+    if (!shouldRetry(result, policy, attempt)) {
+      return {
+        ...result,
+        attempt_count: attempts.length,
+        details:
+          attempts.length > 1
+            ? { ...result.details, attempts }
+            : result.details,
+      };
+    }
+
+    await sleep(policy.delayMs);
+  }
+}
+
+// Statement inserting a probe result (run directly or via DB.batch)
+function probeResultStatement(
   db: D1Database,
   result: ProbeResult,
-): Promise<void> {
-  await db
+): D1PreparedStatement {
+  return db
     .prepare(
       `
-    INSERT INTO probe_results (id, endpoint_id, timestamp, status, latency_ms, status_code, error_message, region)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    INSERT INTO probe_results (id, endpoint_id, timestamp, status, latency_ms, status_code, error_message, error_category, attempt_count, details, region)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `,
     )
     .bind(
@@ -116,17 +450,29 @@ async function storeProbeResult(
       result.latency_ms ?? null,
       result.status_code ?? null,
       result.error_message ?? null,
+      result.error_category ?? null,
+      result.attempt_count ?? 1,
+      result.details ? JSON.stringify(result.details) : null,
       result.region,
-    )
-    .run();
+    );
+}
+
+// Store probe results in D1 in a single batch
+export async function storeProbeResults(
+  db: D1Database,
+  results: ProbeResult[],
+): Promise<void> {
+  if (results.length === 0) return;
+  await db.batch(results.map((result) => probeResultStatement(db, result)));
 }
 
 // Calculate and update health summary in KV
-async function updateHealthSummary(
+export async function updateHealthSummary(
   db: D1Database,
   kv: KVNamespace,
   endpointId: string,
   latestResult: ProbeResult,
+  ttlSeconds: number = 300,
 ): Promise<void> {
   // Get recent probe stats (last 24 hours)
   const stats = await db
@@ -138,7 +484,9 @@ async function updateHealthSummary(
       AVG(CASE WHEN latency_ms IS NOT NULL THEN latency_ms END) as avg_latency
     FROM probe_results
     WHERE endpoint_id = ?
-      AND timestamp >= datetime('now', '-24 hours')
+      AND datetime(timestamp) >= datetime('now', '-24 hours')
+      AND ${MONITORED_API_RESULTS_FILTER}
+      AND ${RUN_OUTCOME_RESULTS_FILTER}
   `,
     )
     .bind(endpointId)
@@ -190,59 +538,318 @@ async function updateHealthSummary(
     uptime_percentage: reliabilityScore,
   };
 
-  // Store in KV with 5 minute TTL
+  // Store in KV; TTL defaults to 5 minutes and must outlive the probe interval
   await kv.put(`health:${endpointId}`, JSON.stringify(healthSummary), {
-    expirationTtl: 300,
+    expirationTtl: ttlSeconds,
   });
 }
 
+// Outcome of the detection pipeline for a single endpoint
+export interface DetectionOutcome {
+  opened: boolean;
+  resolved: boolean;
+  notificationsSent: number;
+  notificationsFailed: number;
+}
+
+// Run degradation/recovery detection after a probe and send push alerts
+async function runDetection(
+  env: Env,
+  endpoint: Endpoint,
+  recentProbes?: RecentProbe[],
+): Promise<DetectionOutcome> {
+  const outcome: DetectionOutcome = {
+    opened: false,
+    resolved: false,
+    notificationsSent: 0,
+    notificationsFailed: 0,
+  };
+
+  // Auto-resolve first so a recovered endpoint never gets a fresh incident
+  const resolvedIncident = await checkForRecovery(env.DB, endpoint.id);
+
+  if (resolvedIncident) {
+    outcome.resolved = true;
+    const push = await notifyEndpointUsers(
+      env,
+      endpoint.id,
+      resolvedIncident,
+      "recovery",
+    );
+    outcome.notificationsSent += push.sent;
+    outcome.notificationsFailed += push.failed;
+    return outcome;
+  }
+
+  const incident = await checkForDegradation(
+    env.DB,
+    endpoint.id,
+    endpoint.name,
+    getEndpointRegions(env, endpoint),
+    recentProbes,
+  );
+
+  if (incident) {
+    await createIncident(env.DB, incident);
+    outcome.opened = true;
+
+    const push = await notifyEndpointUsers(env, endpoint.id, incident, "alert");
+    outcome.notificationsSent += push.sent;
+    outcome.notificationsFailed += push.failed;
+  }
+
+  return outcome;
+}
+
+// Probe an endpoint from every region it is configured for
+export async function probeAllRegions(
+  env: Env,
+  endpoint: Endpoint,
+): Promise<ProbeResult[]> {
+  return Promise.all(
+    getEndpointRegions(env, endpoint).map((region) =>
+      probeFromRegion(env, endpoint, region, endpoint.timeout_seconds || 10),
+    ),
+  );
+}
+
+// Refresh the health summary and run detection once results are stored.
+// `recentProbes` is the caller's own detection window, if it keeps one.
+export async function finalizeProbeResults(
+  env: Env,
+  endpoint: Endpoint,
+  results: ProbeResult[],
+  intervalMinutes: number,
+  recentProbes?: RecentProbe[],
+): Promise<DetectionOutcome> {
+  // Summarize with the first failing region, if any
+  const latest =
+    results.find((result) => result.status !== "success") ?? results[0];
+  await updateHealthSummary(
+    env.DB,
+    env.STATUS_KV,
+    endpoint.id,
+    latest,
+    Math.max(300, intervalMinutes * 60 * 2),
+  );
+
+  for (const result of results) {
+    console.log(
+      `Probed ${endpoint.name} [${result.region}]: ${result.status} (${result.latency_ms?.toFixed(0)}ms)`,
+    );
+  }
+
+  const outcome = await runDetection(env, endpoint, recentProbes);
+
+  if (endpoint.response_schema) {
+    const drift = await checkForSchemaDrift(
+      env.DB,
+      endpoint.id,
+      endpoint.name,
+      results,
+    );
+    const pushes = [
+      drift.opened &&
+        notifyEndpointUsers(env, endpoint.id, drift.opened, "alert"),
+      drift.resolved &&
+        notifyEndpointUsers(env, endpoint.id, drift.resolved, "recovery"),
+    ];
+    for (const push of await Promise.all(pushes)) {
+      if (!push) continue;
+      outcome.notificationsSent += push.sent;
+      outcome.notificationsFailed += push.failed;
+    }
+    if (drift.opened) outcome.opened = true;
+    if (drift.resolved) outcome.resolved = true;
+  }
+
+  // Record and content changes are alerted on even when every probe succeeded
+  const change =
+    endpoint.type === "dns"
+      ? await checkForRecordChange(env, endpoint, results)
+      : endpoint.content_change
+        ? await checkForContentChange(env, endpoint, results)
+        : null;
+  if (change) {
+    const push = await notifyEndpointChange(env, endpoint.id, change);
+    outcome.notificationsSent += push.sent;
+    outcome.notificationsFailed += push.failed;
+  }
+
+  return outcome;
+}
+
+// Run `task` over `items` with at most `limit` tasks in flight
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T) => Promise<R>,
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index]);
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(limit, items.length) }, worker),
+  );
+  return results;
+}
+
+// Workers allow 6 simultaneous outgoing connections per invocation
+const DEFAULT_CONCURRENCY = 6;
+
+// Endpoints per chunk, as a multiple of the concurrency limit
+const CHUNK_SIZE_FACTOR = 4;
+
+// Stop starting new chunks after this long so the tick can finish
+const DEFAULT_TIME_BUDGET_MS = 45_000;
+
+// Per-run counts reported by the probe engine
+export interface ProbeEngineResult {
+  probed: number;
+  errors: number;
+  deferred: number; // Due endpoints left for the next tick
+  incidentsOpened: number;
+  incidentsResolved: number;
+  notificationsSent: number;
+  notificationsFailed: number;
+}
+
 // Main probe engine - called by cron trigger
 export async function runProbeEngine(
   env: Env,
-): Promise<{ probed: number; errors: number }> {
+  tickTime: Date = new Date(),
+): Promise<ProbeEngineResult> {
   console.log("Probe engine starting...");
 
-  let probed = 0;
-  let errors = 0;
+  const summary: ProbeEngineResult = {
+    probed: 0,
+    errors: 0,
+    deferred: 0,
+    incidentsOpened: 0,
+    incidentsResolved: 0,
+    notificationsSent: 0,
+    notificationsFailed: 0,
+  };
+
+  const concurrency =
+    Number(env.PROBE_CONCURRENCY) > 0
+      ? Number(env.PROBE_CONCURRENCY)
+      : DEFAULT_CONCURRENCY;
+  const timeBudgetMs =
+    Number(env.PROBE_TIME_BUDGET_MS) > 0
+      ? Number(env.PROBE_TIME_BUDGET_MS)
+      : DEFAULT_TIME_BUDGET_MS;
+  const chunkSize = concurrency * CHUNK_SIZE_FACTOR;
 
   try {
-    // Get all active endpoints
-    const { results: endpoints } = await env.DB.prepare(
-      "SELECT * FROM endpoints WHERE is_active = 1",
-    ).all<Endpoint>();
+    // Only endpoints whose next probe time has passed, most overdue first
+    const endpoints = await getDueEndpoints(env.DB, tickTime);
+    const slots = planProbeSlots(endpoints, tickTime);
 
-    console.log(`Found ${endpoints.length} active endpoints`);
+    console.log(`Found ${endpoints.length} due endpoints`);
 
-    // Get Cloudflare region (colo)
-    const region = "global"; // In production, use cf.colo from request
+    const tickStart = Date.now();
 
-    // Probe each endpoint
-    for (const endpoint of endpoints) {
-      try {
-        const result = await probeEndpoint(endpoint, {
-          timeout: endpoint.timeout_seconds || 10,
-          region,
-        });
+    for (let offset = 0; offset < slots.length; offset += chunkSize) {
+      // Unclaimed endpoints stay due and are picked up first next tick
+      if (Date.now() - tickStart > timeBudgetMs) {
+        summary.deferred = slots.length - offset;
+        console.warn(
+          `Probe time budget exhausted; deferring ${summary.deferred} endpoints to the next tick`,
+        );
+        break;
+      }
 
-        await storeProbeResult(env.DB, result);
-        await updateHealthSummary(env.DB, env.STATUS_KV, endpoint.id, result);
+      const chunk = slots.slice(offset, offset + chunkSize);
+
+      // Claim the chunk first so a failing probe is not retried every tick
+      await env.DB.batch(
+        chunk.map(({ endpoint, intervalMinutes }) =>
+          nextProbeStatement(
+            env.DB,
+            endpoint.id,
+            computeNextProbeAt(tickTime, intervalMinutes),
+          ),
+        ),
+      );
+
+      // Probe each endpoint at its jittered offset into the tick
+      const probed = await mapWithConcurrency(
+        chunk,
+        concurrency,
+        async (slot) => {
+          const waitMs = tickStart + slot.offsetMs - Date.now();
+          if (waitMs > 0) {
+            await sleep(waitMs);
+          }
+
+          try {
+            return { slot, results: await probeAllRegions(env, slot.endpoint) };
+          } catch (error) {
+            summary.errors++;
+            console.error(`Error probing ${slot.endpoint.name}:`, error);
+            return null;
+          }
+        },
+      );
+      const completed = probed.filter((entry) => entry !== null);
 
-        probed++;
-        console.log(
-          `Probed ${endpoint.name}: ${result.status} (${result.latency_ms?.toFixed(0)}ms)`,
+      try {
+        await storeProbeResults(
+          env.DB,
+          completed.flatMap((entry) => entry.results),
         );
       } catch (error) {
-        errors++;
-        console.error(`Error probing ${endpoint.name}:`, error);
+        summary.errors += completed.length;
+        console.error("Error storing probe results:", error);
+        continue;
       }
+      summary.probed += completed.length;
+
+      // Detection failures must not count as probe failures
+      await mapWithConcurrency(
+        completed,
+        concurrency,
+        async ({ slot, results }) => {
+          try {
+            const outcome = await finalizeProbeResults(
+              env,
+              slot.endpoint,
+              results,
+              slot.intervalMinutes,
+            );
+
+            if (outcome.opened) summary.incidentsOpened++;
+            if (outcome.resolved) summary.incidentsResolved++;
+            summary.notificationsSent += outcome.notificationsSent;
+            summary.notificationsFailed += outcome.notificationsFailed;
+          } catch (error) {
+            console.error(
+              `Error running detection for ${slot.endpoint.name}:`,
+              error,
+            );
+          }
+        },
+      );
     }
 
-    console.log(`Probe engine complete. Probed: ${probed}, Errors: ${errors}`);
+    console.log(
+      `Probe engine complete. Probed: ${summary.probed}, Errors: ${summary.errors}, Deferred: ${summary.deferred}, ` +
+        `Incidents opened: ${summary.incidentsOpened}, resolved: ${summary.incidentsResolved}, ` +
+        `Notifications sent: ${summary.notificationsSent}, failed: ${summary.notificationsFailed}`,
+    );
   } catch (error) {
     console.error("Probe engine failed:", error);
   }
 
-  return { probed, errors };
+  return summary;
 }
 
 // Clean up old probe data (retention policy)
@@ -253,7 +860,7 @@ export async function cleanupOldProbes(
   const result = await env.DB.prepare(
     `
     DELETE FROM probe_results 
-    WHERE timestamp < datetime('now', '-${retentionDays} days')
+    WHERE datetime(timestamp) < datetime('now', '-${retentionDays} days')
   `,
   ).run();
 
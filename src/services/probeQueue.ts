@@ -0,0 +1,135 @@
+/**
+ * Probe Queue Service
+ *
+ * Fans due endpoints out to a Cloudflare Queue so probing scales with the
+ * number of consumer invocations instead of a single cron run. The cron
+ * handler only claims and enqueues; the consumer probes, stores and detects.
+ */
+
+import type { Env } from "../index";
+import type { Endpoint } from "../models/types";
+import {
+  finalizeProbeResults,
+  probeAllRegions,
+  storeProbeResults,
+} from "./probeEngine";
+import {
+  computeNextProbeAt,
+  getDueEndpoints,
+  nextProbeStatement,
+  planProbeSlots,
+} from "./probeScheduler";
+
+// Message sent for each due endpoint
+export interface ProbeJob {
+  endpointId: string;
+  intervalMinutes: number;
+  scheduledAt: string; // Cron tick that enqueued the job
+}
+
+// Queue that receives jobs after max_retries (must match wrangler.toml)
+export const DEAD_LETTER_QUEUE = "pulseapi-probes-dlq";
+
+// Queues accept at most 100 messages per sendBatch call
+const SEND_BATCH_SIZE = 100;
+
+// Back-off between delivery attempts of a failed job
+const RETRY_DELAY_SECONDS = 10;
+
+// Claim every due endpoint and enqueue one probe job per endpoint
+export async function enqueueDueEndpoints(
+  env: Env,
+  queue: Queue<ProbeJob>,
+  tickTime: Date = new Date(),
+): Promise<number> {
+  const endpoints = await getDueEndpoints(env.DB, tickTime);
+  const slots = planProbeSlots(endpoints, tickTime);
+
+  for (let offset = 0; offset < slots.length; offset += SEND_BATCH_SIZE) {
+    const chunk = slots.slice(offset, offset + SEND_BATCH_SIZE);
+
+    await env.DB.batch(
+      chunk.map(({ endpoint, intervalMinutes }) =>
+        nextProbeStatement(
+          env.DB,
+          endpoint.id,
+          computeNextProbeAt(tickTime, intervalMinutes),
+        ),
+      ),
+    );
+
+    // Delivery delay preserves the jitter and same-host spacing
+    await queue.sendBatch(
+      chunk.map(({ endpoint, intervalMinutes, offsetMs }) => ({
+        body: {
+          endpointId: endpoint.id,
+          intervalMinutes,
+          scheduledAt: tickTime.toISOString(),
+        },
+        delaySeconds: Math.floor(offsetMs / 1000),
+      })),
+    );
+  }
+
+  console.log(`Enqueued ${slots.length} due endpoints`);
+  return slots.length;
+}
+
+// Run a single probe job; throws so the message is retried
+async function runProbeJob(env: Env, job: ProbeJob): Promise<void> {
+  // Reload so deleted, paused or edited endpoints are honored
+  const endpoint = await env.DB.prepare(
+    "SELECT * FROM endpoints WHERE id = ? AND is_active = 1",
+  )
+    .bind(job.endpointId)
+    .first<Endpoint>();
+
+  if (!endpoint) {
+    console.log(`Skipping probe job for inactive endpoint ${job.endpointId}`);
+    return;
+  }
+
+  const results = await probeAllRegions(env, endpoint);
+  await storeProbeResults(env.DB, results);
+
+  // Results are stored; a detection failure must not re-run the probe
+  try {
+    await finalizeProbeResults(env, endpoint, results, job.intervalMinutes);
+  } catch (error) {
+    console.error(`Error running detection for ${endpoint.name}:`, error);
+  }
+}
+
+// Queue consumer for probe jobs
+export async function handleProbeBatch(
+  batch: MessageBatch<ProbeJob>,
+  env: Env,
+): Promise<void> {
+  // Every message is independent, so one failure only retries that job
+  await Promise.all(
+    batch.messages.map(async (message) => {
+      try {
+        await runProbeJob(env, message.body);
+        message.ack();
+      } catch (error) {
+        console.error(
+          `Probe job for ${message.body.endpointId} failed (attempt ${message.attempts}):`,
+          error,
+        );
+        message.retry({ delaySeconds: RETRY_DELAY_SECONDS });
+      }
+    }),
+  );
+}
+
+// Dead-letter consumer: jobs that exhausted their retries
+export async function handleDeadProbeBatch(
+  batch: MessageBatch<ProbeJob>,
+): Promise<void> {
+  for (const message of batch.messages) {
+    console.error(
+      `Dropping probe job for ${message.body.endpointId} scheduled at ${message.body.scheduledAt} after ${message.attempts} attempts`,
+    );
+    message.ack();
+  }
+}
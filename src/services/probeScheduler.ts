@@ -0,0 +1,211 @@
+/**
+ * Probe Scheduler Service
+ *
+ * Decides which endpoints are due on a cron tick, enforces plan limits on
+ * probe intervals and spreads probes against the same host across the tick
+ */
+
+import type { Endpoint, User } from "../models/types";
+
+// Probe intervals the scheduler supports (minutes)
+export const SUPPORTED_INTERVALS = [1, 5, 10, 15, 30, 60];
+
+// Shortest interval each subscription plan may use (minutes)
+const PLAN_MIN_INTERVAL: Record<User["subscription_status"], number> = {
+  free: 5,
+  pro: 1,
+  expired: 5,
+};
+
+// Shortest interval the alarm-driven endpoint scheduler supports (seconds)
+export const MIN_INTERVAL_SECONDS = 30;
+
+// Probes are spread over the first part of each tick
+const JITTER_WINDOW_MS = 20_000;
+
+// Minimum gap between two probes against the same host
+const SAME_HOST_SPACING_MS = 1_000;
+
+// Endpoint row joined with its owner's plan
+export interface SchedulableEndpoint extends Endpoint {
+  subscription_status: User["subscription_status"] | null;
+  subscription_expires_at: string | null;
+}
+
+// A due endpoint with its start offset inside the tick
+export interface ProbeSlot {
+  endpoint: SchedulableEndpoint;
+  offsetMs: number;
+  intervalMinutes: number;
+}
+
+// Resolve the plan that is actually in effect for an endpoint owner
+function effectivePlan(
+  endpoint: SchedulableEndpoint,
+  now: Date,
+): User["subscription_status"] {
+  if (endpoint.subscription_status !== "pro") {
+    return endpoint.subscription_status === "expired" ? "expired" : "free";
+  }
+
+  if (
+    endpoint.subscription_expires_at &&
+    new Date(endpoint.subscription_expires_at).getTime() < now.getTime()
+  ) {
+    return "expired";
+  }
+
+  return "pro";
+}
+
+// Snap a requested interval to a supported one the plan allows
+export function effectiveIntervalMinutes(
+  requested: number | null | undefined,
+  plan: User["subscription_status"],
+): number {
+  const floor = Math.max(requested || 5, PLAN_MIN_INTERVAL[plan]);
+  return (
+    SUPPORTED_INTERVALS.find((interval) => interval >= floor) ??
+    SUPPORTED_INTERVALS[SUPPORTED_INTERVALS.length - 1]
+  );
+}
+
+// Interval for alarm-driven scheduling; sub-minute intervals need the pro plan
+export function effectiveIntervalSeconds(
+  endpoint: SchedulableEndpoint,
+  now: Date,
+): number {
+  const plan = effectivePlan(endpoint, now);
+  if (endpoint.probe_interval_seconds && plan === "pro") {
+    return Math.max(endpoint.probe_interval_seconds, MIN_INTERVAL_SECONDS);
+  }
+  return effectiveIntervalMinutes(endpoint.probe_interval_minutes, plan) * 60;
+}
+
+// Shortest interval the owner's plan allows, in seconds (bounds how often a
+// failing endpoint may be re-checked)
+export function planMinIntervalSeconds(
+  endpoint: SchedulableEndpoint,
+  now: Date,
+): number {
+  const plan = effectivePlan(endpoint, now);
+  return plan === "pro" ? MIN_INTERVAL_SECONDS : PLAN_MIN_INTERVAL[plan] * 60;
+}
+
+// Next due time: the tick's minute plus the interval
+export function computeNextProbeAt(
+  tickTime: Date,
+  intervalMinutes: number,
+): string {
+  const tickMinute = Math.floor(tickTime.getTime() / 60_000) * 60_000;
+  return new Date(tickMinute + intervalMinutes * 60_000).toISOString();
+}
+
+// Stable 32-bit FNV-1a hash, used to derive jitter offsets
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Host used to group endpoints for jitter
+function hostOf(endpoint: Endpoint): string {
+  try {
+    return new URL(endpoint.url).host;
+  } catch {
+    return endpoint.url;
+  }
+}
+
+// Fetch all active endpoints whose next probe time has passed (heartbeat
+// endpoints are pushed to, never probed)
+export async function getDueEndpoints(
+  db: D1Database,
+  now: Date,
+): Promise<SchedulableEndpoint[]> {
+  const { results } = await db
+    .prepare(
+      `
+    SELECT e.*, u.subscription_status, u.subscription_expires_at
+    FROM endpoints e
+    LEFT JOIN users u ON e.user_id = u.id
+    WHERE e.is_active = 1
+      AND e.type != 'heartbeat'
+      AND (e.next_probe_at IS NULL OR e.next_probe_at <= ?)
+    ORDER BY e.next_probe_at ASC
+  `,
+    )
+    .bind(now.toISOString())
+    .all<SchedulableEndpoint>();
+
+  return results;
+}
+
+// Fetch a single endpoint joined with its owner's plan
+export async function getSchedulableEndpoint(
+  db: D1Database,
+  endpointId: string,
+): Promise<SchedulableEndpoint | null> {
+  return db
+    .prepare(
+      `
+    SELECT e.*, u.subscription_status, u.subscription_expires_at
+    FROM endpoints e
+    LEFT JOIN users u ON e.user_id = u.id
+    WHERE e.id = ?
+  `,
+    )
+    .bind(endpointId)
+    .first<SchedulableEndpoint>();
+}
+
+// Assign each due endpoint an interval and a jittered start offset
+export function planProbeSlots(
+  endpoints: SchedulableEndpoint[],
+  now: Date,
+): ProbeSlot[] {
+  const byHost = new Map<string, SchedulableEndpoint[]>();
+  for (const endpoint of endpoints) {
+    const host = hostOf(endpoint);
+    const group = byHost.get(host) ?? [];
+    group.push(endpoint);
+    byHost.set(host, group);
+  }
+
+  const slots: ProbeSlot[] = [];
+
+  for (const [host, group] of byHost) {
+    // Each host gets its own base offset; its endpoints are spaced from there
+    const base = hashString(host) % JITTER_WINDOW_MS;
+    group.sort((a, b) => a.id.localeCompare(b.id));
+
+    group.forEach((endpoint, index) => {
+      const spread = hashString(endpoint.id) % SAME_HOST_SPACING_MS;
+      slots.push({
+        endpoint,
+        offsetMs:
+          (base + index * SAME_HOST_SPACING_MS + spread) % JITTER_WINDOW_MS,
+        intervalMinutes: effectiveIntervalMinutes(
+          endpoint.probe_interval_minutes,
+          effectivePlan(endpoint, now),
+        ),
+      });
+    });
+  }
+
+  return slots.sort((a, b) => a.offsetMs - b.offsetMs);
+}
+
+// Statement recording when an endpoint is next due (run via DB.batch)
+export function nextProbeStatement(
+  db: D1Database,
+  endpointId: string,
+  nextProbeAt: string,
+): D1PreparedStatement {
+  return db
+    .prepare("UPDATE endpoints SET next_probe_at = ? WHERE id = ?")
+    .bind(nextProbeAt, endpointId);
+}
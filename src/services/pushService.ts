@@ -162,6 +162,7 @@ export async function sendPushNotification(
 // Send incident alert notification
 export async function sendIncidentAlert(
   env: Env,
+  userId: string,
   deviceToken: string,
   incident: Incident,
   endpointName: string,
@@ -193,7 +194,7 @@ export async function sendIncidentAlert(
   // Log notification
   await logNotification(
     env.DB,
-    incident.endpoint_id, // Using endpoint's user lookup
+    userId,
     incident.id,
     "incident_alert",
     result.success,
@@ -206,6 +207,7 @@ export async function sendIncidentAlert(
 // Send recovery notification
 export async function sendRecoveryNotification(
   env: Env,
+  userId: string,
   deviceToken: string,
   incident: Incident,
   endpointName: string,
@@ -234,7 +236,7 @@ export async function sendRecoveryNotification(
   // Log notification
   await logNotification(
     env.DB,
-    incident.endpoint_id,
+    userId,
     incident.id,
     "recovery",
     result.success,
@@ -244,6 +246,47 @@ export async function sendRecoveryNotification(
   return result;
 }
 
+// Send a change notification (e.g. DNS records changed); not tied to an incident
+export async function sendChangeNotification(
+  env: Env,
+  userId: string,
+  deviceToken: string,
+  endpointId: string,
+  endpointName: string,
+  summary: string,
+): Promise<{ success: boolean; error?: string }> {
+  const payload: APNsPayload = {
+    aps: {
+      alert: {
+        title: "🔄 Change Detected",
+        subtitle: endpointName,
+        body: summary,
+      },
+      sound: "default",
+      "thread-id": `change-${endpointId}`,
+      "interruption-level": "active",
+    },
+    endpointId,
+    type: "change",
+  };
+
+  const result = await sendPushNotification(env, deviceToken, payload, {
+    priority: 5,
+  });
+
+  // Log notification
+  await logNotification(
+    env.DB,
+    userId,
+    null,
+    "change",
+    result.success,
+    result.error,
+  );
+
+  return result;
+}
+
 // Get alert title based on severity
 function getAlertTitle(severity: IncidentSeverity): string {
   switch (severity) {
@@ -344,12 +387,14 @@ export async function notifyEndpointUsers(
     type === "alert"
       ? await sendIncidentAlert(
           env,
+          endpoint.user_id,
           endpoint.device_token,
           incident,
           endpoint.name,
         )
       : await sendRecoveryNotification(
           env,
+          endpoint.user_id,
           endpoint.device_token,
           incident,
           endpoint.name,
@@ -360,3 +405,43 @@ export async function notifyEndpointUsers(
     failed: result.success ? 0 : 1,
   };
 }
+
+// Send a change notification to the user monitoring an endpoint
+export async function notifyEndpointChange(
+  env: Env,
+  endpointId: string,
+  summary: string,
+): Promise<{ sent: number; failed: number }> {
+  const endpoint = await env.DB.prepare(
+    `
+    SELECT e.name, u.device_token, u.id as user_id
+    FROM endpoints e
+    INNER JOIN users u ON e.user_id = u.id
+    WHERE e.id = ? AND u.device_token IS NOT NULL
+  `,
+  )
+    .bind(endpointId)
+    .first<{
+      name: string;
+      device_token: string;
+      user_id: string;
+    }>();
+
+  if (!endpoint || !endpoint.device_token) {
+    return { sent: 0, failed: 0 };
+  }
+
+  const result = await sendChangeNotification(
+    env,
+    endpoint.user_id,
+    endpoint.device_token,
+    endpointId,
+    endpoint.name,
+    summary,
+  );
+
+  return {
+    sent: result.success ? 1 : 0,
+    failed: result.success ? 0 : 1,
+  };
+}
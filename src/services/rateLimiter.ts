@@ -0,0 +1,38 @@
+/**
+ * Rate Limiter Service
+ *
+ * Fixed-window request counters in KV. KV is eventually consistent, so the
+ * limits are approximate; they keep ad-hoc probes from hammering a target.
+ */
+
+// KV rejects expirations shorter than this (seconds)
+const MIN_KV_TTL_SECONDS = 60;
+
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfterSeconds: number;
+}
+
+// Count one request against `key`, allowing `limit` per window
+export async function consumeRateLimit(
+  kv: KVNamespace,
+  key: string,
+  limit: number,
+  windowSeconds: number,
+  now: Date = new Date(),
+): Promise<RateLimitResult> {
+  const nowSeconds = Math.floor(now.getTime() / 1000);
+  const windowStart = nowSeconds - (nowSeconds % windowSeconds);
+  const retryAfterSeconds = windowStart + windowSeconds - nowSeconds;
+  const counterKey = `ratelimit:${key}:${windowStart}`;
+
+  const count = parseInt((await kv.get(counterKey)) ?? "0");
+  if (count >= limit) {
+    return { allowed: false, retryAfterSeconds };
+  }
+
+  await kv.put(counterKey, String(count + 1), {
+    expirationTtl: Math.max(MIN_KV_TTL_SECONDS, windowSeconds * 2),
+  });
+  return { allowed: true, retryAfterSeconds: 0 };
+}
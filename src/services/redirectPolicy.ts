@@ -0,0 +1,175 @@
+/**
+ * Redirect Policy Service
+ *
+ * Follows HTTP redirects hop by hop so the chain can be recorded, limited
+ * and checked against the expected final URL
+ */
+
+import type {
+  AssertionResult,
+  Endpoint,
+  RedirectHop,
+  RedirectPolicy,
+} from "../models/types";
+
+// Same limit fetch applies when following redirects itself
+const MAX_FOLLOW_HOPS = 20;
+const MAX_LIMIT_HOPS = 10;
+
+const REDIRECT_MODES = ["follow", "manual", "limit"];
+
+// Statuses that redirect when a Location header is present
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308];
+
+// The only request headers forwarded to another origin; everything else,
+// including API keys, cookies and resolved {{secret.*}} values, is dropped
+const CROSS_ORIGIN_HEADERS = ["accept", "content-type", "user-agent"];
+
+// Redirects are followed unless the endpoint opts out
+export const DEFAULT_REDIRECT_POLICY: RedirectPolicy = { mode: "follow" };
+
+export class RedirectLimitError extends Error {
+  constructor(
+    message: string,
+    public readonly hops: RedirectHop[],
+  ) {
+    super(message);
+    this.name = "RedirectLimitError";
+  }
+}
+
+// Parse an endpoint's redirect policy, falling back to defaults
+export function parseRedirectPolicy(endpoint: Endpoint): RedirectPolicy {
+  const policy: Partial<RedirectPolicy> | null =
+    typeof endpoint.redirect_policy === "string"
+      ? JSON.parse(endpoint.redirect_policy)
+      : endpoint.redirect_policy;
+
+  return { ...DEFAULT_REDIRECT_POLICY, ...policy };
+}
+
+// Fetch a URL, following redirects per the policy and recording each hop.
+// `checkUrl` vets every URL before it's requested. Throws RedirectLimitError
+// when the chain is longer than allowed.
+export async function fetchWithRedirects(
+  url: string,
+  init: RequestInit,
+  policy: RedirectPolicy,
+  checkUrl?: (url: string) => Promise<void>,
+): Promise<{ response: Response; hops: RedirectHop[]; finalUrl: string }> {
+  const maxHops =
+    policy.mode === "manual"
+      ? 0
+      : policy.mode === "limit"
+        ? (policy.maxHops ?? 0)
+        : MAX_FOLLOW_HOPS;
+
+  const hops: RedirectHop[] = [];
+  let currentUrl = url;
+  let request: RequestInit = { ...init, redirect: "manual" };
+
+  for (;;) {
+    await checkUrl?.(currentUrl);
+    const response = await fetch(currentUrl, request);
+    const location = response.headers.get("Location");
+
+    if (
+      policy.mode === "manual" ||
+      !REDIRECT_STATUSES.includes(response.status) ||
+      !location
+    ) {
+      return { response, hops, finalUrl: currentUrl };
+    }
+
+    const nextUrl = new URL(location, currentUrl).toString();
+    hops.push({ url: currentUrl, status: response.status, location: nextUrl });
+
+    if (hops.length > maxHops) {
+      throw new RedirectLimitError(
+        `Too many redirects (more than ${maxHops})`,
+        hops,
+      );
+    }
+
+    // Redirect bodies are never read
+    await response.body?.cancel();
+
+    // 303, and 301/302 after a POST, continue as a GET without a body
+    const method = (request.method ?? "GET").toUpperCase();
+    if (
+      (response.status === 303 && method !== "HEAD") ||
+      ((response.status === 301 || response.status === 302) &&
+        method === "POST")
+    ) {
+      request = { ...request, method: "GET", body: undefined };
+    }
+
+    // Credentials aren't forwarded to another origin
+    if (new URL(nextUrl).origin !== new URL(currentUrl).origin) {
+      const headers = new Headers();
+      new Headers(request.headers).forEach((value, name) => {
+        if (CROSS_ORIGIN_HEADERS.includes(name)) headers.set(name, value);
+      });
+      request = { ...request, headers };
+    }
+
+    currentUrl = nextUrl;
+  }
+}
+
+// Check where the redirect chain ended; null when the policy doesn't care
+export function checkFinalUrl(
+  policy: RedirectPolicy,
+  finalUrl: string,
+): AssertionResult | null {
+  if (policy.finalUrl) {
+    const expected = new URL(policy.finalUrl).toString();
+    return {
+      assertion: `final URL equals ${expected}`,
+      passed: finalUrl === expected,
+      actual: finalUrl,
+    };
+  }
+  if (policy.finalUrlPattern) {
+    return {
+      assertion: `final URL matches /${policy.finalUrlPattern}/`,
+      passed: new RegExp(policy.finalUrlPattern).test(finalUrl),
+      actual: finalUrl,
+    };
+  }
+  return null;
+}
+
+// Validate a user-supplied redirect policy, returning an error message if invalid
+export function validateRedirectPolicy(input: unknown): string | null {
+  const policy = input as Partial<RedirectPolicy> | null;
+  if (!policy || typeof policy !== "object") {
+    return "redirectPolicy must be an object";
+  }
+  if (!REDIRECT_MODES.includes(policy.mode as string)) {
+    return `redirectPolicy.mode must be one of ${REDIRECT_MODES.join(", ")}`;
+  }
+  if (
+    policy.mode === "limit" &&
+    (!Number.isInteger(policy.maxHops) ||
+      policy.maxHops! < 1 ||
+      policy.maxHops! > MAX_LIMIT_HOPS)
+  ) {
+    return `redirectPolicy.maxHops must be an integer between 1 and ${MAX_LIMIT_HOPS}`;
+  }
+  if (policy.finalUrl !== undefined) {
+    try {
+      new URL(String(policy.finalUrl));
+    } catch {
+      return "redirectPolicy.finalUrl must be a valid URL";
+    }
+  }
+  if (policy.finalUrlPattern !== undefined) {
+    try {
+      new RegExp(String(policy.finalUrlPattern));
+    } catch {
+      return "redirectPolicy.finalUrlPattern must be a valid regular expression";
+    }
+  }
+  return null;
+}
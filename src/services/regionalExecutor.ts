@@ -0,0 +1,123 @@
+/**
+ * Regional Executor Service
+ *
+ * Runs probes from a set of regions. Each region is backed by a Durable Object
+ * placed with a location hint; without the REGIONAL_PROBER binding (e.g. in
+ * local development) probes run in-process and are only tagged with the region.
+ */
+
+import type { Env } from "../index";
+import type { Endpoint, ProbeResult } from "../models/types";
+import { probeEndpoint } from "./probeEngine";
+
+// Used when PROBE_REGIONS is not configured
+const DEFAULT_REGIONS = ["global"];
+
+// Durable Object location hints accepted as region names
+const LOCATION_HINTS = [
+  "wnam",
+  "enam",
+  "sam",
+  "weur",
+  "eeur",
+  "apac",
+  "oc",
+  "afr",
+  "me",
+];
+
+// Regions the operator has enabled (PROBE_REGIONS, comma-separated)
+export function getAvailableRegions(env: Env): string[] {
+  const regions = (env.PROBE_REGIONS ?? "")
+    .split(",")
+    .map((region) => region.trim())
+    .filter(Boolean);
+
+  return regions.length > 0 ? regions : DEFAULT_REGIONS;
+}
+
+// Regions an endpoint is probed from; defaults to every available region
+export function getEndpointRegions(env: Env, endpoint: Endpoint): string[] {
+  const available = getAvailableRegions(env);
+  const selected: string[] | null =
+    typeof endpoint.regions === "string"
+      ? JSON.parse(endpoint.regions)
+      : (endpoint.regions ?? null);
+
+  const regions = selected?.filter((region) => available.includes(region));
+  return regions && regions.length > 0 ? regions : available;
+}
+
+// Validate user-selected regions, returning an error message if invalid
+export function validateRegions(input: unknown, env: Env): string | null {
+  const available = getAvailableRegions(env);
+  if (
+    !Array.isArray(input) ||
+    input.length === 0 ||
+    input.some((region) => !available.includes(region))
+  ) {
+    return `regions must be a non-empty subset of ${available.join(", ")}`;
+  }
+  return null;
+}
+
+// Probe an endpoint from a single region
+export async function probeFromRegion(
+  env: Env,
+  endpoint: Endpoint,
+  region: string,
+  timeout: number,
+): Promise<ProbeResult> {
+  if (!env.REGIONAL_PROBER) {
+    return probeEndpoint(endpoint, { timeout, region, env });
+  }
+
+  const id = env.REGIONAL_PROBER.idFromName(region);
+  const stub = LOCATION_HINTS.includes(region)
+    ? env.REGIONAL_PROBER.get(id, {
+        locationHint: region as DurableObjectLocationHint,
+      })
+    : env.REGIONAL_PROBER.get(id);
+
+  const response = await stub.fetch("https://regional-prober/probe", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ endpoint, region, timeout }),
+  });
+
+  if (!response.ok) {
+    throw new Error(
+      `Regional prober ${region} failed with HTTP ${response.status}`,
+    );
+  }
+
+  return response.json<ProbeResult>();
+}
+
+// Durable Object that runs probes from the location it was placed in
+export class RegionalProber implements DurableObject {
+  constructor(
+    private readonly state: DurableObjectState,
+    private readonly env: Env,
+  ) {}
+
+  async fetch(request: Request): Promise<Response> {
+    if (request.method !== "POST") {
+      return new Response("Method Not Allowed", { status: 405 });
+    }
+
+    const { endpoint, region, timeout } = await request.json<{
+      endpoint: Endpoint;
+      region: string;
+      timeout: number;
+    }>();
+
+    const result = await probeEndpoint(endpoint, {
+      timeout,
+      region,
+      env: this.env,
+    });
+
+    return Response.json(result);
+  }
+}
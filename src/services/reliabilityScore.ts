@@ -2,6 +2,7 @@
 // Calculates a 0-100 reliability score for each endpoint
 
 import { D1Database } from "@cloudflare/workers-types";
+import { RUN_OUTCOME_RESULTS_FILTER } from "./degradationDetector";
 
 interface ReliabilityScoreResult {
   endpointId: string;
@@ -95,7 +96,7 @@ async function getProbeStats(
       AVG(CASE WHEN status = 'success' THEN latency_ms ELSE NULL END) as avg_latency,
       SUM(CASE WHEN status = 'error' THEN 1 ELSE 0 END) as error_count
     FROM probe_results
-    WHERE endpoint_id = ? AND timestamp >= ?
+    WHERE endpoint_id = ? AND timestamp >= ? AND ${RUN_OUTCOME_RESULTS_FILTER}
   `,
     )
     .bind(endpointId, since)
@@ -0,0 +1,81 @@
+/**
+ * Retry Policy Service
+ *
+ * Decides whether a failed probe attempt is re-checked before it is recorded
+ */
+
+import type { Endpoint, ProbeResult, RetryPolicy } from "../models/types";
+
+const MAX_RETRIES = 3;
+const MAX_DELAY_MS = 10_000;
+
+// No retries unless the endpoint opts in
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  retries: 0,
+  delayMs: 1000,
+  retryOn: "timeout",
+};
+
+// Parse an endpoint's retry policy, falling back to defaults
+export function parseRetryPolicy(endpoint: Endpoint): RetryPolicy {
+  const policy: Partial<RetryPolicy> | null =
+    typeof endpoint.retry_policy === "string"
+      ? JSON.parse(endpoint.retry_policy)
+      : endpoint.retry_policy;
+
+  return { ...DEFAULT_RETRY_POLICY, ...policy };
+}
+
+// Whether an attempt should be re-checked (`attempt` is zero-based)
+export function shouldRetry(
+  result: ProbeResult,
+  policy: RetryPolicy,
+  attempt: number,
+): boolean {
+  if (result.status === "success" || attempt >= policy.retries) {
+    return false;
+  }
+
+  // Configuration problems won't fix themselves within the same run
+  if (
+    result.error_category === "auth_token" ||
+    result.error_category === "secret" ||
+    result.error_category === "blocked"
+  ) {
+    return false;
+  }
+
+  return policy.retryOn === "any" || result.status === "timeout";
+}
+
+// Validate a user-supplied retry policy, returning an error message if invalid
+export function validateRetryPolicy(input: unknown): string | null {
+  const policy = input as Partial<RetryPolicy> | null;
+  if (!policy || typeof policy !== "object") {
+    return "retryPolicy must be an object";
+  }
+  if (
+    policy.retries !== undefined &&
+    (!Number.isInteger(policy.retries) ||
+      policy.retries < 0 ||
+      policy.retries > MAX_RETRIES)
+  ) {
+    return `retryPolicy.retries must be an integer between 0 and ${MAX_RETRIES}`;
+  }
+  if (
+    policy.delayMs !== undefined &&
+    (typeof policy.delayMs !== "number" ||
+      policy.delayMs < 0 ||
+      policy.delayMs > MAX_DELAY_MS)
+  ) {
+    return `retryPolicy.delayMs must be between 0 and ${MAX_DELAY_MS}`;
+  }
+  if (
+    policy.retryOn !== undefined &&
+    policy.retryOn !== "timeout" &&
+    policy.retryOn !== "any"
+  ) {
+    return 'retryPolicy.retryOn must be "timeout" or "any"';
+  }
+  return null;
+}
@@ -0,0 +1,270 @@
+/**
+ * Scenario Probe Service
+ *
+ * Runs multi-step transaction probes, passing extracted variables between steps
+ */
+
+import type {
+  Endpoint,
+  ProbeResult,
+  ScenarioConfig,
+  ScenarioStep,
+  StepResult,
+} from "../models/types";
+import type { ProbeConfig } from "./probeEngine";
+import { createSecretResolver, SecretResolutionError } from "./secretVault";
+import { DEFAULT_REDIRECT_POLICY, fetchWithRedirects } from "./redirectPolicy";
+import { assertSafeUrl, BlockedTargetError } from "./urlSafety";
+import {
+  evaluateAssertions,
+  formatAssertionFailures,
+  resolveJSONPath,
+  validateAssertions,
+} from "./assertionEvaluator";
+
+const DEFAULT_EXPECTED_CODES = [200, 201, 204];
+const METHODS = ["GET", "POST", "PUT", "PATCH", "DELETE", "HEAD"];
+
+// Replace {{vars.NAME}} placeholders with extracted values
+function interpolate(template: string, vars: Record<string, string>): string {
+  return template.replace(/\{\{\s*vars\.([\w-]+)\s*\}\}/g, (match, name) =>
+    name in vars ? vars[name] : match,
+  );
+}
+
+// Run a single step, extracting variables into `vars` on success
+async function runStep(
+  step: ScenarioStep,
+  vars: Record<string, string>,
+  timeoutSeconds: number,
+  resolveSecrets: (text: string) => Promise<string>,
+  checkUrl: (url: string) => Promise<void>,
+): Promise<StepResult> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeoutSeconds * 1000);
+  const method = step.method || "GET";
+
+  // Secrets are resolved before variables so response data can never
+  // inject a {{secret.NAME}} reference
+  const render = async (template: string) =>
+    interpolate(await resolveSecrets(template), vars);
+
+  try {
+    const headers: Record<string, string> = {
+      "User-Agent": "PulseAPI-Probe/1.0",
+    };
+    for (const [key, value] of Object.entries(step.headers ?? {})) {
+      headers[key] = await render(value);
+    }
+
+    const url = await render(step.url);
+    const body =
+      method !== "GET" && method !== "HEAD" && step.body
+        ? await render(step.body)
+        : undefined;
+
+    const startTime = performance.now();
+
+    // Redirects are followed hop by hop so each target is vetted
+    const { response } = await fetchWithRedirects(
+      url,
+      { method, headers, body, signal: controller.signal },
+      DEFAULT_REDIRECT_POLICY,
+      checkUrl,
+    );
+
+    const latencyMs = performance.now() - startTime;
+    const bodyText = method === "HEAD" ? "" : await response.text();
+    clearTimeout(timeoutId);
+
+    const expectedCodes = step.expectedStatusCodes || DEFAULT_EXPECTED_CODES;
+    if (!expectedCodes.includes(response.status)) {
+      return {
+        name: step.name,
+        status: "error",
+        statusCode: response.status,
+        latencyMs,
+        errorMessage: `Unexpected status: ${response.status}`,
+        errorCategory: "http_status",
+      };
+    }
+
+    const assertionResults = step.assertions?.length
+      ? evaluateAssertions(step.assertions, bodyText)
+      : undefined;
+    if (assertionResults && !assertionResults.every((r) => r.passed)) {
+      return {
+        name: step.name,
+        status: "error",
+        statusCode: response.status,
+        latencyMs,
+        errorMessage: formatAssertionFailures(assertionResults),
+        errorCategory: "assertion",
+        assertions: assertionResults,
+      };
+    }
+
+    // Extract variables for later steps
+    let json: unknown;
+    for (const extraction of step.extract ?? []) {
+      let value: unknown;
+
+      if (extraction.from === "header") {
+        value = response.headers.get(extraction.path) ?? undefined;
+      } else {
+        try {
+          json ??= JSON.parse(bodyText);
+        } catch {
+          json = null;
+        }
+        const resolved = resolveJSONPath(json, extraction.path);
+        value = resolved.found ? resolved.value : undefined;
+      }
+
+      if (value === undefined || value === null) {
+        return {
+          name: step.name,
+          status: "error",
+          statusCode: response.status,
+          latencyMs,
+          errorMessage: `Could not extract "${extraction.name}" from ${extraction.from} ${extraction.path}`,
+          errorCategory: "assertion",
+          assertions: assertionResults,
+        };
+      }
+
+      vars[extraction.name] =
+        typeof value === "string" ? value : JSON.stringify(value);
+    }
+
+    return {
+      name: step.name,
+      status: "success",
+      statusCode: response.status,
+      latencyMs,
+      assertions: assertionResults,
+    };
+  } catch (error: any) {
+    clearTimeout(timeoutId);
+
+    if (error instanceof SecretResolutionError) {
+      return {
+        name: step.name,
+        status: "error",
+        errorMessage: error.message,
+        errorCategory: "secret",
+      };
+    }
+
+    if (error instanceof BlockedTargetError) {
+      return {
+        name: step.name,
+        status: "error",
+        errorMessage: error.message,
+        errorCategory: "blocked",
+      };
+    }
+
+    const isTimeout = error.name === "AbortError";
+
+    return {
+      name: step.name,
+      status: isTimeout ? "timeout" : "error",
+      errorMessage: isTimeout ? "Request timed out" : error.message,
+      errorCategory: isTimeout ? "timeout" : "network",
+    };
+  }
+}
+
+// Run every step in order, stopping at the first failure
+export async function probeScenario(
+  endpoint: Endpoint,
+  config: ProbeConfig,
+): Promise<ProbeResult> {
+  const id = crypto.randomUUID();
+  const timestamp = new Date().toISOString();
+
+  const scenario: ScenarioConfig =
+    typeof endpoint.probe_config === "string"
+      ? JSON.parse(endpoint.probe_config)
+      : (endpoint.probe_config as ScenarioConfig);
+
+  const resolveSecrets = createSecretResolver(config.env, endpoint.user_id);
+  const vars: Record<string, string> = {};
+  const steps: StepResult[] = [];
+
+  for (const step of scenario.steps) {
+    const stepResult = await runStep(
+      step,
+      vars,
+      config.timeout,
+      resolveSecrets,
+      (url) => assertSafeUrl(config.env, url),
+    );
+    steps.push(stepResult);
+    if (stepResult.status !== "success") break;
+  }
+
+  const failed = steps.find((step) => step.status !== "success");
+  const last = steps[steps.length - 1];
+  const latencyMs = steps.every((step) => step.latencyMs !== undefined)
+    ? steps.reduce((sum, step) => sum + step.latencyMs!, 0)
+    : undefined;
+
+  return {
+    id,
+    endpoint_id: endpoint.id,
+    timestamp,
+    status: failed ? failed.status : "success",
+    latency_ms: latencyMs,
+    status_code: last?.statusCode,
+    error_message: failed
+      ? `Step "${failed.name}" failed: ${failed.errorMessage}`
+      : undefined,
+    error_category: failed?.errorCategory,
+    details: { steps, failedStep: failed?.name },
+    region: config.region,
+  };
+}
+
+// Validate a user-supplied scenario config, returning an error message if invalid
+export function validateScenarioConfig(input: unknown): string | null {
+  const config = input as ScenarioConfig | undefined;
+  if (!config || !Array.isArray(config.steps) || config.steps.length === 0) {
+    return "probeConfig.steps must be a non-empty array";
+  }
+
+  const names = new Set<string>();
+  for (const [i, step] of config.steps.entries()) {
+    const prefix = `probeConfig.steps[${i}]`;
+    if (!step || typeof step.name !== "string" || !step.name) {
+      return `${prefix}.name is required`;
+    }
+    if (names.has(step.name)) {
+      return `${prefix}.name must be unique`;
+    }
+    names.add(step.name);
+    if (typeof step.url !== "string" || !step.url) {
+      return `${prefix}.url is required`;
+    }
+    if (step.method && !METHODS.includes(step.method)) {
+      return `${prefix}.method must be one of ${METHODS.join(", ")}`;
+    }
+    if (step.assertions !== undefined) {
+      const assertionsError = validateAssertions(step.assertions);
+      if (assertionsError) return `${prefix}.${assertionsError}`;
+    }
+    for (const [j, extraction] of (step.extract ?? []).entries()) {
+      if (
+        !extraction ||
+        typeof extraction.name !== "string" ||
+        typeof extraction.path !== "string" ||
+        (extraction.from !== "json" && extraction.from !== "header")
+      ) {
+        return `${prefix}.extract[${j}] needs a name, a path and from "json" or "header"`;
+      }
+    }
+  }
+
+  return null;
+}
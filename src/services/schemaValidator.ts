@@ -0,0 +1,367 @@
+/**
+ * Schema Validator Service
+ *
+ * Validates response bodies against a JSON Schema (the commonly used subset
+ * of draft 2020-12 plus OpenAPI's `nullable`) and extracts response schemas
+ * from OpenAPI documents
+ */
+
+import type { SchemaViolation } from "../models/types";
+import { DEFAULT_REDIRECT_POLICY, fetchWithRedirects } from "./redirectPolicy";
+
+// Stop collecting violations after this many
+const MAX_VIOLATIONS = 20;
+
+type JSONSchema = Record<string, any> | boolean;
+
+// Where to find a response schema in an OpenAPI document
+export interface OpenAPISchemaSource {
+  url: string;
+  path: string; // e.g. /users/{id}
+  method?: string; // Defaults to get
+  status?: string; // Defaults to 200
+}
+
+// JSON Schema type name of a value
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number") {
+    return Number.isInteger(value) ? "integer" : "number";
+  }
+  return typeof value;
+}
+
+// Whether a value's type satisfies a schema type keyword
+function matchesType(value: unknown, type: string): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === "number" && actual === "integer");
+}
+
+// Resolve a local "#/..." reference against the root document
+function resolveRef(root: unknown, ref: string): JSONSchema | undefined {
+  if (!ref.startsWith("#")) return undefined;
+
+  let current: any = root;
+  for (const part of ref.slice(1).split("/").filter(Boolean)) {
+    const key = decodeURIComponent(part)
+      .replace(/~1/g, "/")
+      .replace(/~0/g, "~");
+    if (current === null || typeof current !== "object" || !(key in current)) {
+      return undefined;
+    }
+    current = current[key];
+  }
+  return current;
+}
+
+// Validate `value` at `path`, appending violations
+function validateNode(
+  schema: JSONSchema,
+  value: unknown,
+  path: string,
+  root: unknown,
+  violations: SchemaViolation[],
+  depth = 0,
+): void {
+  if (violations.length >= MAX_VIOLATIONS) return;
+
+  if (schema === true) return;
+  if (schema === false) {
+    violations.push({ path, message: "is not allowed" });
+    return;
+  }
+  if (depth > 64) {
+    violations.push({ path, message: "schema nesting too deep" });
+    return;
+  }
+
+  if (typeof schema.$ref === "string") {
+    const target = resolveRef(root, schema.$ref);
+    if (target === undefined) {
+      violations.push({ path, message: `unresolvable $ref ${schema.$ref}` });
+      return;
+    }
+    validateNode(target, value, path, root, violations, depth + 1);
+  }
+
+  if (value === null && schema.nullable === true) return;
+
+  if (schema.type !== undefined) {
+    const types: string[] = Array.isArray(schema.type)
+      ? schema.type
+      : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      violations.push({
+        path,
+        message: `expected ${types.join(" or ")}, got ${typeOf(value)}`,
+      });
+      return;
+    }
+  }
+
+  if (schema.const !== undefined) {
+    if (JSON.stringify(value) !== JSON.stringify(schema.const)) {
+      violations.push({
+        path,
+        message: `expected ${JSON.stringify(schema.const)}`,
+      });
+    }
+  }
+
+  if (Array.isArray(schema.enum)) {
+    const encoded = JSON.stringify(value);
+    if (
+      !schema.enum.some((option: unknown) => JSON.stringify(option) === encoded)
+    ) {
+      violations.push({
+        path,
+        message: `must be one of ${schema.enum.map((o: unknown) => JSON.stringify(o)).join(", ")}`,
+      });
+    }
+  }
+
+  // Combinators
+  if (Array.isArray(schema.allOf)) {
+    for (const sub of schema.allOf) {
+      validateNode(sub, value, path, root, violations, depth + 1);
+    }
+  }
+  for (const keyword of ["anyOf", "oneOf"] as const) {
+    if (!Array.isArray(schema[keyword])) continue;
+    const matches = schema[keyword].filter((sub: JSONSchema) => {
+      const branch: SchemaViolation[] = [];
+      validateNode(sub, value, path, root, branch, depth + 1);
+      return branch.length === 0;
+    }).length;
+    if (matches === 0 || (keyword === "oneOf" && matches > 1)) {
+      violations.push({
+        path,
+        message:
+          matches === 0
+            ? `does not match any ${keyword} schema`
+            : "matches more than one oneOf schema",
+      });
+    }
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      violations.push({ path, message: `shorter than ${schema.minLength}` });
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      violations.push({ path, message: `longer than ${schema.maxLength}` });
+    }
+    if (typeof schema.pattern === "string") {
+      try {
+        if (!new RegExp(schema.pattern, "u").test(value)) {
+          violations.push({
+            path,
+            message: `does not match /${schema.pattern}/`,
+          });
+        }
+      } catch {
+        // Patterns JavaScript can't compile are ignored
+      }
+    }
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      violations.push({ path, message: `less than ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      violations.push({ path, message: `greater than ${schema.maximum}` });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      violations.push({
+        path,
+        message: `fewer than ${schema.minItems} items`,
+      });
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      violations.push({ path, message: `more than ${schema.maxItems} items` });
+    }
+    if (schema.items !== undefined && !Array.isArray(schema.items)) {
+      value.forEach((item, index) =>
+        validateNode(
+          schema.items,
+          item,
+          `${path}[${index}]`,
+          root,
+          violations,
+          depth + 1,
+        ),
+      );
+    }
+  }
+
+  if (value !== null && typeof value === "object" && !Array.isArray(value)) {
+    const object = value as Record<string, unknown>;
+    const properties: Record<string, JSONSchema> = schema.properties ?? {};
+
+    for (const name of schema.required ?? []) {
+      if (!(name in object)) {
+        violations.push({
+          path: `${path}.${name}`,
+          message: "is required",
+        });
+      }
+    }
+
+    for (const [name, propertyValue] of Object.entries(object)) {
+      if (name in properties) {
+        validateNode(
+          properties[name],
+          propertyValue,
+          `${path}.${name}`,
+          root,
+          violations,
+          depth + 1,
+        );
+      } else if (schema.additionalProperties !== undefined) {
+        validateNode(
+          schema.additionalProperties,
+          propertyValue,
+          `${path}.${name}`,
+          root,
+          violations,
+          depth + 1,
+        );
+      }
+    }
+  }
+}
+
+// Validate a response body, returning the violations (empty when valid)
+export function validateAgainstSchema(
+  schema: JSONSchema,
+  bodyText: string,
+): SchemaViolation[] {
+  let document: unknown;
+  try {
+    document = JSON.parse(bodyText);
+  } catch {
+    return [{ path: "$", message: "response is not valid JSON" }];
+  }
+
+  const violations: SchemaViolation[] = [];
+  validateNode(schema, document, "$", schema, violations);
+  return violations.slice(0, MAX_VIOLATIONS);
+}
+
+// Summarize violations for error messages and incident descriptions
+export function formatSchemaViolations(violations: SchemaViolation[]): string {
+  const shown = violations
+    .slice(0, 3)
+    .map((violation) => `${violation.path} ${violation.message}`);
+  const more = violations.length > 3 ? ` (+${violations.length - 3} more)` : "";
+  return `Schema violation: ${shown.join("; ")}${more}`;
+}
+
+// Inline every local $ref so the schema is self-contained
+function inlineRefs(
+  node: unknown,
+  document: unknown,
+  seen: string[] = [],
+): unknown {
+  if (Array.isArray(node)) {
+    return node.map((item) => inlineRefs(item, document, seen));
+  }
+  if (node === null || typeof node !== "object") return node;
+
+  const ref = (node as Record<string, unknown>).$ref;
+  if (typeof ref === "string") {
+    // Recursive schemas stay permissive past the first level
+    if (seen.includes(ref)) return {};
+    const target = resolveRef(document, ref);
+    if (target === undefined) {
+      throw new Error(`Unresolvable $ref ${ref}`);
+    }
+    return inlineRefs(target, document, [...seen, ref]);
+  }
+
+  return Object.fromEntries(
+    Object.entries(node).map(([key, value]) => [
+      key,
+      inlineRefs(value, document, seen),
+    ]),
+  );
+}
+
+// Fetch an OpenAPI document and extract one response's JSON schema;
+// `checkUrl` vets the document URL and every redirect hop
+export async function fetchOpenAPISchema(
+  source: OpenAPISchemaSource,
+  checkUrl?: (url: string) => Promise<void>,
+): Promise<JSONSchema> {
+  const { response } = await fetchWithRedirects(
+    source.url,
+    {
+      headers: {
+        Accept: "application/json",
+        "User-Agent": "PulseAPI-Probe/1.0",
+      },
+    },
+    DEFAULT_REDIRECT_POLICY,
+    checkUrl,
+  );
+  if (!response.ok) {
+    throw new Error(`OpenAPI document returned ${response.status}`);
+  }
+
+  const document = await response.json<any>().catch(() => {
+    throw new Error("OpenAPI document must be JSON");
+  });
+
+  const method = (source.method ?? "get").toLowerCase();
+  const status = source.status ?? "200";
+  const operation = document?.paths?.[source.path]?.[method];
+  if (!operation) {
+    throw new Error(
+      `OpenAPI document has no ${method.toUpperCase()} ${source.path}`,
+    );
+  }
+
+  const responseSpec =
+    operation.responses?.[status] ?? operation.responses?.default;
+  // OpenAPI 3 nests schemas under content; Swagger 2 puts them on the response
+  const schema =
+    responseSpec?.content?.["application/json"]?.schema ?? responseSpec?.schema;
+  if (!schema) {
+    throw new Error(
+      `OpenAPI document has no JSON schema for the ${status} response`,
+    );
+  }
+
+  return inlineRefs(schema, document) as JSONSchema;
+}
+
+// Validate a user-supplied schema, returning an error message if invalid
+export function validateResponseSchema(input: unknown): string | null {
+  if (typeof input === "boolean") return null;
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    return "responseSchema must be a JSON Schema object";
+  }
+  return null;
+}
+
+// Validate an OpenAPI schema source, returning an error message if invalid
+export function validateOpenAPISource(input: unknown): string | null {
+  const source = input as Partial<OpenAPISchemaSource> | null;
+  if (!source || typeof source !== "object") {
+    return "openApiSchema must be an object";
+  }
+  try {
+    new URL(String(source.url));
+  } catch {
+    return "openApiSchema.url must be a valid URL";
+  }
+  if (typeof source.path !== "string" || !source.path.startsWith("/")) {
+    return "openApiSchema.path must be an API path like /users/{id}";
+  }
+  return null;
+}
@@ -0,0 +1,256 @@
+/**
+ * Secrets Vault Service
+ *
+ * Encrypts per-user secrets with AES-GCM and resolves {{secret.NAME}}
+ * references in endpoint configuration at probe time
+ */
+
+import type { Env } from "../index";
+
+// Matches {{secret.NAME}} references
+const SECRET_REFERENCE = /\{\{\s*secret\.([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
+
+// Allowed secret names
+export const SECRET_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]{0,63}$/;
+
+// Raised when the vault is not configured or a reference can't be resolved
+export class SecretResolutionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SecretResolutionError";
+  }
+}
+
+// Secret metadata returned by the API (never the value)
+export interface SecretSummary {
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+function toBase64(bytes: ArrayBuffer | Uint8Array): string {
+  return btoa(String.fromCharCode(...new Uint8Array(bytes)));
+}
+
+function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(value), (c) => c.charCodeAt(0));
+}
+
+// Import the base64-encoded 256-bit vault key
+async function importVaultKey(env: Env): Promise<CryptoKey> {
+  if (!env.SECRETS_ENCRYPTION_KEY) {
+    throw new SecretResolutionError("Secrets vault is not configured");
+  }
+
+  return crypto.subtle.importKey(
+    "raw",
+    fromBase64(env.SECRETS_ENCRYPTION_KEY),
+    { name: "AES-GCM" },
+    false,
+    ["encrypt", "decrypt"],
+  );
+}
+
+// Bind ciphertext to its owner and name so rows can't be swapped
+function additionalData(userId: string, name: string): Uint8Array<ArrayBuffer> {
+  return new TextEncoder().encode(`${userId}:${name}`);
+}
+
+async function encryptValue(
+  env: Env,
+  userId: string,
+  name: string,
+  value: string,
+): Promise<{ ciphertext: string; iv: string }> {
+  const key = await importVaultKey(env);
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv, additionalData: additionalData(userId, name) },
+    key,
+    new TextEncoder().encode(value),
+  );
+
+  return { ciphertext: toBase64(ciphertext), iv: toBase64(iv) };
+}
+
+async function decryptValue(
+  key: CryptoKey,
+  userId: string,
+  name: string,
+  row: { ciphertext: string; iv: string },
+): Promise<string> {
+  const plaintext = await crypto.subtle.decrypt(
+    {
+      name: "AES-GCM",
+      iv: fromBase64(row.iv),
+      additionalData: additionalData(userId, name),
+    },
+    key,
+    fromBase64(row.ciphertext),
+  );
+
+  return new TextDecoder().decode(plaintext);
+}
+
+// List secret names for a user
+export async function listSecrets(
+  db: D1Database,
+  userId: string,
+): Promise<SecretSummary[]> {
+  const { results } = await db
+    .prepare(
+      `
+    SELECT name, created_at, updated_at FROM secrets
+    WHERE user_id = ?
+    ORDER BY name ASC
+  `,
+    )
+    .bind(userId)
+    .all<{ name: string; created_at: string; updated_at: string }>();
+
+  return results.map((row) => ({
+    name: row.name,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  }));
+}
+
+// Create a new secret; returns null if the name is already taken
+export async function createSecret(
+  env: Env,
+  userId: string,
+  name: string,
+  value: string,
+): Promise<SecretSummary | null> {
+  const { ciphertext, iv } = await encryptValue(env, userId, name, value);
+  const now = new Date().toISOString();
+
+  const result = await env.DB.prepare(
+    `
+    INSERT INTO secrets (id, user_id, name, ciphertext, iv, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(user_id, name) DO NOTHING
+  `,
+  )
+    .bind(crypto.randomUUID(), userId, name, ciphertext, iv, now, now)
+    .run();
+
+  if (result.meta.changes === 0) {
+    return null;
+  }
+
+  return { name, createdAt: now, updatedAt: now };
+}
+
+// Replace a secret's value; returns false if it doesn't exist
+export async function rotateSecret(
+  env: Env,
+  userId: string,
+  name: string,
+  value: string,
+): Promise<boolean> {
+  const { ciphertext, iv } = await encryptValue(env, userId, name, value);
+
+  const result = await env.DB.prepare(
+    `
+    UPDATE secrets SET ciphertext = ?, iv = ?, updated_at = ?
+    WHERE user_id = ? AND name = ?
+  `,
+  )
+    .bind(ciphertext, iv, new Date().toISOString(), userId, name)
+    .run();
+
+  return result.meta.changes > 0;
+}
+
+// Delete a secret; returns false if it doesn't exist
+export async function deleteSecret(
+  db: D1Database,
+  userId: string,
+  name: string,
+): Promise<boolean> {
+  const result = await db
+    .prepare("DELETE FROM secrets WHERE user_id = ? AND name = ?")
+    .bind(userId, name)
+    .run();
+
+  return result.meta.changes > 0;
+}
+
+// Collect the secret names referenced in a piece of configuration
+export function findSecretReferences(value: unknown): string[] {
+  const text = typeof value === "string" ? value : JSON.stringify(value ?? "");
+  return [...text.matchAll(SECRET_REFERENCE)].map((match) => match[1]);
+}
+
+// Return the referenced names that the user has not created
+export async function findMissingSecrets(
+  db: D1Database,
+  userId: string,
+  names: string[],
+): Promise<string[]> {
+  const unique = [...new Set(names)];
+  if (unique.length === 0) return [];
+
+  const { results } = await db
+    .prepare(
+      `SELECT name FROM secrets WHERE user_id = ? AND name IN (${unique.map(() => "?").join(", ")})`,
+    )
+    .bind(userId, ...unique)
+    .all<{ name: string }>();
+
+  const existing = new Set(results.map((row) => row.name));
+  return unique.filter((name) => !existing.has(name));
+}
+
+// Build a resolver that substitutes {{secret.NAME}} references for one user.
+// Secrets are decrypted lazily and cached for the lifetime of the resolver.
+export function createSecretResolver(
+  env: Env,
+  userId: string,
+): (text: string) => Promise<string> {
+  const cache = new Map<string, string>();
+  let key: Promise<CryptoKey> | undefined;
+
+  const lookup = async (name: string): Promise<string> => {
+    const cached = cache.get(name);
+    if (cached !== undefined) return cached;
+
+    const row = await env.DB.prepare(
+      "SELECT ciphertext, iv FROM secrets WHERE user_id = ? AND name = ?",
+    )
+      .bind(userId, name)
+      .first<{ ciphertext: string; iv: string }>();
+
+    if (!row) {
+      throw new SecretResolutionError(`Secret "${name}" not found`);
+    }
+
+    key ??= importVaultKey(env);
+    let value: string;
+    try {
+      value = await decryptValue(await key, userId, name, row);
+    } catch (error) {
+      if (error instanceof SecretResolutionError) throw error;
+      throw new SecretResolutionError(
+        `Secret "${name}" could not be decrypted`,
+      );
+    }
+
+    cache.set(name, value);
+    return value;
+  };
+
+  return async (text: string) => {
+    const names = findSecretReferences(text);
+    if (names.length === 0) return text;
+
+    const values = new Map<string, string>();
+    for (const name of names) {
+      values.set(name, await lookup(name));
+    }
+
+    return text.replace(SECRET_REFERENCE, (_, name) => values.get(name)!);
+  };
+}
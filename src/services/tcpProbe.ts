@@ -0,0 +1,331 @@
+/**
+ * TCP Probe Service
+ *
+ * Checks non-HTTP services (databases, SMTP, brokers) with the Workers
+ * sockets API: connect time, an optional payload/banner exchange and an
+ * optional TLS upgrade.
+ *
+ * Without STARTTLS the payload is sent once connected and the response
+ * (or banner) must start with expectPrefix. With STARTTLS the exchange is
+ * line-based so nothing is left unread when TLS starts: the greeting is
+ * read, each line of the payload is sent in turn and its reply read in
+ * full (SMTP "250-" continuation and IMAP "* " untagged lines included),
+ * expectPrefix is checked against the last reply and then TLS starts.
+ * For SMTP: payload "EHLO probe.example\r\nSTARTTLS\r\n", expectPrefix
+ * "220"; for IMAP: payload "a1 STARTTLS\r\n", expectPrefix "a1 OK".
+ */
+
+import { connect } from "cloudflare:sockets";
+import type {
+  Endpoint,
+  ProbeErrorCategory,
+  ProbeResult,
+  ProbeResultStatus,
+  TCPConfig,
+} from "../models/types";
+import type { ProbeConfig } from "./probeEngine";
+import { createSecretResolver, SecretResolutionError } from "./secretVault";
+import { assertSafeUrl, BlockedTargetError } from "./urlSafety";
+
+// Stop reading a banner after this many bytes
+const MAX_RESPONSE_BYTES = 4096;
+
+const TLS_MODES = ["off", "on", "starttls"];
+
+// Raised when the deadline passes while connecting or reading
+class TCPTimeoutError extends Error {
+  constructor(stage: string) {
+    super(`Timed out ${stage}`);
+    this.name = "TCPTimeoutError";
+  }
+}
+
+// Reject with a TCPTimeoutError once the deadline has passed
+function withDeadline<T>(
+  promise: Promise<T>,
+  deadline: number,
+  stage: string,
+): Promise<T> {
+  let timer: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new TCPTimeoutError(stage)),
+      Math.max(0, deadline - Date.now()),
+    );
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+// Read until the data starts with `prefix` (or can no longer match)
+async function readResponse(
+  socket: Socket,
+  prefix: string,
+  deadline: number,
+): Promise<string> {
+  const reader = socket.readable.getReader();
+  const decoder = new TextDecoder();
+  let received = "";
+
+  try {
+    while (received.length < Math.max(prefix.length, 1)) {
+      const { value, done } = await withDeadline(
+        reader.read(),
+        deadline,
+        "waiting for a response",
+      );
+      if (done) break;
+      received += decoder.decode(value, { stream: true });
+      if (
+        received.length >= MAX_RESPONSE_BYTES ||
+        !prefix.startsWith(received.slice(0, prefix.length))
+      ) {
+        break;
+      }
+    }
+  } catch (error) {
+    // Settle the read still pending after a timeout so the lock can go
+    await reader.cancel().catch(() => {});
+    throw error;
+  } finally {
+    reader.releaseLock();
+  }
+
+  return received;
+}
+
+// SMTP continuation lines ("250-...") are followed by more lines of the
+// same reply, as are IMAP untagged lines ("* ...") except in a greeting
+function continuesReply(line: string, isGreeting: boolean): boolean {
+  return /^\d{3}-/.test(line) || (!isGreeting && line.startsWith("* "));
+}
+
+// Run a line-based exchange ahead of STARTTLS: read the greeting, then send
+// each payload line and read its reply. Returns the last reply, with its
+// lines joined by "\n" (partial if the server closed the connection).
+async function exchangeLines(
+  socket: Socket,
+  payload: string | undefined,
+  deadline: number,
+): Promise<string> {
+  const reader = socket.readable.getReader();
+  const writer = socket.writable.getWriter();
+  const decoder = new TextDecoder();
+  const encoder = new TextEncoder();
+  let buffered = "";
+
+  const readReply = async (isGreeting: boolean): Promise<string> => {
+    const lines: string[] = [];
+    for (;;) {
+      const newline = buffered.indexOf("\n");
+      if (newline !== -1) {
+        const line = buffered.slice(0, newline).replace(/\r$/, "");
+        buffered = buffered.slice(newline + 1);
+        lines.push(line);
+        if (!continuesReply(line, isGreeting)) return lines.join("\n");
+        continue;
+      }
+
+      if (buffered.length >= MAX_RESPONSE_BYTES) {
+        return [...lines, buffered].join("\n");
+      }
+      const { value, done } = await withDeadline(
+        reader.read(),
+        deadline,
+        "waiting for a response",
+      );
+      if (done) return [...lines, buffered].filter(Boolean).join("\n");
+      buffered += decoder.decode(value, { stream: true });
+    }
+  };
+
+  try {
+    let reply = await readReply(true);
+    for (const command of payload?.match(/[^\n]*\n/g) ?? []) {
+      await writer.write(encoder.encode(command));
+      reply = await readReply(false);
+    }
+    return reply;
+  } catch (error) {
+    await reader.cancel().catch(() => {});
+    throw error;
+  } finally {
+    reader.releaseLock();
+    writer.releaseLock();
+  }
+}
+
+// Truncate a response for use in an error
+function preview(text: string): string {
+  const line = text.split(/\r?\n/)[0];
+  return line.length > 100 ? `${line.slice(0, 100)}...` : line;
+}
+
+// Probe a tcp://host:port endpoint
+export async function probeTCP(
+  endpoint: Endpoint,
+  config: ProbeConfig,
+): Promise<ProbeResult> {
+  const id = crypto.randomUUID();
+  const timestamp = new Date().toISOString();
+  const deadline = Date.now() + config.timeout * 1000;
+
+  const tcpConfig: TCPConfig =
+    (typeof endpoint.probe_config === "string"
+      ? JSON.parse(endpoint.probe_config)
+      : (endpoint.probe_config as TCPConfig | null)) ?? {};
+  const tls = tcpConfig.tls ?? "off";
+
+  const result = (
+    status: ProbeResultStatus,
+    fields: Partial<ProbeResult> = {},
+    errorCategory?: ProbeErrorCategory,
+  ): ProbeResult => ({
+    id,
+    endpoint_id: endpoint.id,
+    timestamp,
+    status,
+    error_category: errorCategory,
+    region: config.region,
+    ...fields,
+  });
+
+  let socket: Socket | null = null;
+  let handshakeMs: number | undefined;
+
+  try {
+    const resolveSecrets = createSecretResolver(config.env, endpoint.user_id);
+    const { hostname, port } = new URL(endpoint.url);
+    const payload = tcpConfig.payload
+      ? await resolveSecrets(tcpConfig.payload)
+      : undefined;
+
+    await assertSafeUrl(config.env, endpoint.url, ["tcp:"]);
+
+    const connectStart = performance.now();
+    socket = connect(
+      { hostname, port: Number(port) },
+      { secureTransport: tls, allowHalfOpen: false },
+    );
+    await withDeadline(socket.opened, deadline, "connecting");
+    handshakeMs = performance.now() - connectStart;
+
+    const prefixMismatch = (response: string, roundTripMs: number) =>
+      result(
+        "error",
+        {
+          latency_ms: handshakeMs! + roundTripMs,
+          error_message: response
+            ? `Expected response starting with "${tcpConfig.expectPrefix}", got "${preview(response)}"`
+            : "Connection closed without a response",
+          details: { timings: { handshakeMs: handshakeMs!, roundTripMs } },
+        },
+        "assertion",
+      );
+
+    // Optional exchange: send the payload, then check the response prefix
+    let roundTripMs: number | undefined;
+    if (tls === "starttls") {
+      const exchangeStart = performance.now();
+      const reply = await exchangeLines(socket, payload, deadline);
+      roundTripMs = performance.now() - exchangeStart;
+
+      if (tcpConfig.expectPrefix && !reply.startsWith(tcpConfig.expectPrefix)) {
+        return prefixMismatch(reply, roundTripMs);
+      }
+    } else if (payload || tcpConfig.expectPrefix) {
+      const exchangeStart = performance.now();
+      if (payload) {
+        const writer = socket.writable.getWriter();
+        await writer.write(new TextEncoder().encode(payload));
+        writer.releaseLock();
+      }
+
+      if (tcpConfig.expectPrefix) {
+        const response = await readResponse(
+          socket,
+          tcpConfig.expectPrefix,
+          deadline,
+        );
+        roundTripMs = performance.now() - exchangeStart;
+
+        if (!response.startsWith(tcpConfig.expectPrefix)) {
+          return prefixMismatch(response, roundTripMs);
+        }
+      }
+    }
+
+    let tlsMs: number | undefined;
+    if (tls === "starttls") {
+      const tlsStart = performance.now();
+      socket = socket.startTls({ expectedServerHostname: hostname });
+      await withDeadline(socket.opened, deadline, "upgrading to TLS");
+      tlsMs = performance.now() - tlsStart;
+    }
+
+    return result("success", {
+      latency_ms: handshakeMs + (tlsMs ?? 0) + (roundTripMs ?? 0),
+      details: { timings: { handshakeMs, tlsMs, roundTripMs } },
+    });
+  } catch (error: any) {
+    if (error instanceof SecretResolutionError) {
+      return result("error", { error_message: error.message }, "secret");
+    }
+    if (error instanceof BlockedTargetError) {
+      return result("error", { error_message: error.message }, "blocked");
+    }
+
+    const isTimeout = error instanceof TCPTimeoutError;
+    return result(
+      isTimeout ? "timeout" : "error",
+      {
+        latency_ms: handshakeMs,
+        error_message: error.message,
+        details:
+          handshakeMs !== undefined ? { timings: { handshakeMs } } : undefined,
+      },
+      isTimeout ? "timeout" : "network",
+    );
+  } finally {
+    await socket?.close().catch(() => {});
+  }
+}
+
+// Validate a user-supplied TCP config, returning an error message if invalid
+export function validateTCPConfig(input: unknown, url: unknown): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(String(url));
+  } catch {
+    return "url must look like tcp://host:port";
+  }
+  if (parsed.protocol !== "tcp:" || !parsed.hostname || !parsed.port) {
+    return "url must look like tcp://host:port";
+  }
+  if (input === undefined || input === null) return null;
+
+  const config = input as TCPConfig;
+  if (typeof config !== "object") {
+    return "probeConfig must be an object";
+  }
+  if (config.tls !== undefined && !TLS_MODES.includes(config.tls)) {
+    return `probeConfig.tls must be one of ${TLS_MODES.join(", ")}`;
+  }
+  if (config.payload !== undefined && typeof config.payload !== "string") {
+    return "probeConfig.payload must be a string";
+  }
+  // Each STARTTLS command is sent as a line and answered before the next
+  if (
+    config.tls === "starttls" &&
+    config.payload !== undefined &&
+    !config.payload.endsWith("\n")
+  ) {
+    return "probeConfig.payload must end with a line break when tls is starttls";
+  }
+  if (
+    config.expectPrefix !== undefined &&
+    (typeof config.expectPrefix !== "string" || !config.expectPrefix)
+  ) {
+    return "probeConfig.expectPrefix must be a non-empty string";
+  }
+  return null;
+}
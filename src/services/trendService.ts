@@ -2,6 +2,7 @@
 // Aggregates metrics for trend visualization
 
 import { D1Database } from "@cloudflare/workers-types";
+import { RUN_OUTCOME_RESULTS_FILTER } from "./degradationDetector";
 
 interface HourlyMetric {
   hour: string;
@@ -64,7 +65,7 @@ async function getHourlyMetrics(
       CAST(SUM(CASE WHEN status = 'success' THEN 1 ELSE 0 END) AS REAL) / COUNT(*) * 100 as success_rate,
       COUNT(*) as probe_count
     FROM probe_results
-    WHERE endpoint_id = ? AND timestamp >= ?
+    WHERE endpoint_id = ? AND timestamp >= ? AND ${RUN_OUTCOME_RESULTS_FILTER}
     GROUP BY strftime('%Y-%m-%d %H:00', timestamp)
     ORDER BY hour ASC
   `,
@@ -101,7 +102,7 @@ async function getDailyMetrics(
       CAST(SUM(CASE WHEN status = 'success' THEN 1 ELSE 0 END) AS REAL) / COUNT(*) * 100 as uptime,
       COUNT(*) as probe_count
     FROM probe_results
-    WHERE endpoint_id = ? AND timestamp >= ?
+    WHERE endpoint_id = ? AND timestamp >= ? AND ${RUN_OUTCOME_RESULTS_FILTER}
     GROUP BY date(timestamp)
     ORDER BY date ASC
   `,
@@ -257,6 +258,7 @@ export async function getDashboardTrends(
       AVG(CASE WHEN status = 'success' THEN latency_ms ELSE NULL END) as avg_latency
     FROM probe_results
     WHERE endpoint_id IN (${placeholders}) AND timestamp >= ?
+      AND ${RUN_OUTCOME_RESULTS_FILTER}
   `,
     )
     .bind(...endpointIds, since24h)
@@ -272,6 +274,7 @@ export async function getDashboardTrends(
       CAST(SUM(CASE WHEN status = 'success' THEN 1 ELSE 0 END) AS REAL) / COUNT(*) * 100 as uptime
     FROM probe_results
     WHERE endpoint_id IN (${placeholders}) AND timestamp >= ?
+      AND ${RUN_OUTCOME_RESULTS_FILTER}
   `,
     )
     .bind(...endpointIds, since7d)
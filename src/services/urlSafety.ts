@@ -0,0 +1,255 @@
+/**
+ * URL Safety Service
+ *
+ * Keeps probes away from internal networks: only expected schemes are
+ * allowed, and hosts that are (or resolve to) private, loopback, link-local
+ * or metadata addresses are blocked unless the operator allowlists them
+ */
+
+import type { Env } from "../index";
+import { DEFAULT_RESOLVER_URL } from "./dnsProbe";
+
+export const HTTP_SCHEMES = ["http:", "https:"];
+
+// Resolved addresses are reused for this long within an isolate (ms)
+const RESOLUTION_CACHE_MS = 60_000;
+
+// Host names that only mean something inside a network
+const INTERNAL_HOSTNAMES = ["localhost", "metadata", "instance-data"];
+const INTERNAL_SUFFIXES = [".localhost", ".local", ".internal", ".home.arpa"];
+
+// Private, loopback, link-local (incl. 169.254.169.254), CGNAT (incl.
+// 100.100.100.200), benchmarking, multicast and reserved IPv4 ranges
+const BLOCKED_IPV4_RANGES = [
+  "0.0.0.0/8",
+  "10.0.0.0/8",
+  "100.64.0.0/10",
+  "127.0.0.0/8",
+  "169.254.0.0/16",
+  "172.16.0.0/12",
+  "192.0.0.0/24",
+  "192.0.2.0/24",
+  "192.168.0.0/16",
+  "198.18.0.0/15",
+  "198.51.100.0/24",
+  "203.0.113.0/24",
+  "224.0.0.0/4",
+  "240.0.0.0/4",
+];
+
+export class BlockedTargetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BlockedTargetError";
+  }
+}
+
+const resolutionCache = new Map<
+  string,
+  { addresses: string[]; expiresAt: number }
+>();
+
+// Parse a dotted IPv4 address into a 32-bit number
+function parseIPv4(address: string): number | null {
+  const parts = address.split(".");
+  if (parts.length !== 4 || parts.some((part) => !/^\d{1,3}$/.test(part))) {
+    return null;
+  }
+  const octets = parts.map(Number);
+  if (octets.some((octet) => octet > 255)) return null;
+  return octets.reduce((value, octet) => value * 256 + octet, 0);
+}
+
+// Parse an IPv6 address into eight 16-bit groups
+function parseIPv6(address: string): number[] | null {
+  if (!address.includes(":")) return null;
+
+  // A trailing dotted IPv4 part fills the last two groups
+  let text = address.toLowerCase();
+  const embedded = text.match(/(\d+\.\d+\.\d+\.\d+)$/);
+  if (embedded) {
+    const ipv4 = parseIPv4(embedded[1]);
+    if (ipv4 === null) return null;
+    text =
+      text.slice(0, -embedded[1].length) +
+      `${(ipv4 >>> 16).toString(16)}:${(ipv4 & 0xffff).toString(16)}`;
+  }
+
+  const halves = text.split("::");
+  if (halves.length > 2) return null;
+  const head = halves[0] ? halves[0].split(":") : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(":") : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 1 ? missing !== 0 : missing < 1) return null;
+
+  const groups = [...head, ...Array(missing).fill("0"), ...tail];
+  if (groups.some((group) => !/^[0-9a-f]{1,4}$/.test(group))) return null;
+  return groups.map((group) => parseInt(group, 16));
+}
+
+// Whether an IPv4 address falls in a CIDR range
+function inIPv4Range(address: number, cidr: string): boolean {
+  const [base, bits] = cidr.split("/");
+  const prefix = Number(bits);
+  const mask = prefix === 0 ? 0 : (0xffffffff << (32 - prefix)) >>> 0;
+  return (address & mask) >>> 0 === (parseIPv4(base)! & mask) >>> 0;
+}
+
+// Dotted form of an IPv4 address carried in two IPv6 groups
+function groupsToIPv4(high: number, low: number): string {
+  return [high >> 8, high & 0xff, low >> 8, low & 0xff].join(".");
+}
+
+// Whether an IP address is private, loopback, link-local or reserved.
+// :: and ::1 count as IPv4-compatible 0.0.0.0/8 addresses.
+function isBlockedAddress(address: string): boolean {
+  const ipv4 = parseIPv4(address);
+  if (ipv4 !== null) {
+    return BLOCKED_IPV4_RANGES.some((range) => inIPv4Range(ipv4, range));
+  }
+
+  const groups = parseIPv6(address);
+  if (!groups) return false;
+
+  // IPv4-mapped (::ffff:0:0/96), IPv4-compatible (::/96) and NAT64
+  // (64:ff9b::/96) addresses are judged by the IPv4 address they carry
+  const isMapped =
+    groups.slice(0, 5).every((g) => g === 0) && groups[5] === 0xffff;
+  const isCompatible = groups.slice(0, 6).every((g) => g === 0);
+  const isNAT64 =
+    groups[0] === 0x64 &&
+    groups[1] === 0xff9b &&
+    groups.slice(2, 6).every((g) => g === 0);
+  if (isMapped || isCompatible || isNAT64) {
+    return isBlockedAddress(groupsToIPv4(groups[6], groups[7]));
+  }
+
+  // 6to4 (2002::/16) carries an IPv4 address in groups 1-2
+  if (groups[0] === 0x2002) {
+    return isBlockedAddress(groupsToIPv4(groups[1], groups[2]));
+  }
+
+  return (
+    (groups[0] & 0xfe00) === 0xfc00 || // Unique local fc00::/7
+    (groups[0] & 0xffc0) === 0xfe80 || // Link-local fe80::/10
+    (groups[0] & 0xffc0) === 0xfec0 || // Site-local fec0::/10
+    (groups[0] & 0xff00) === 0xff00 || // Multicast ff00::/8
+    (groups[0] === 0x2001 && groups[1] === 0x0db8) // Documentation
+  );
+}
+
+// Operator allowlist (PROBE_HOST_ALLOWLIST): host names, *.suffix
+// wildcards, IP addresses and IPv4 CIDR ranges
+function isAllowlisted(env: Env, hostOrAddress: string): boolean {
+  const entries = (env.PROBE_HOST_ALLOWLIST ?? "")
+    .split(",")
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean);
+
+  const ipv4 = parseIPv4(hostOrAddress);
+  return entries.some((entry) => {
+    if (entry.startsWith("*.")) return hostOrAddress.endsWith(entry.slice(1));
+    if (entry.includes("/") && ipv4 !== null) return inIPv4Range(ipv4, entry);
+    return entry === hostOrAddress;
+  });
+}
+
+// Resolve a host name's A and AAAA records over DNS-over-HTTPS
+async function resolveAddresses(env: Env, hostname: string): Promise<string[]> {
+  const cached = resolutionCache.get(hostname);
+  if (cached && cached.expiresAt > Date.now()) return cached.addresses;
+
+  const addresses: string[] = [];
+  for (const type of ["A", "AAAA"]) {
+    const url = new URL(env.DOH_RESOLVER_URL || DEFAULT_RESOLVER_URL);
+    url.searchParams.set("name", hostname);
+    url.searchParams.set("type", type);
+
+    const response = await fetch(url.toString(), {
+      headers: { Accept: "application/dns-json" },
+    });
+    if (!response.ok) {
+      throw new Error(`DNS resolver returned ${response.status}`);
+    }
+    const answer = await response.json<{
+      Answer?: { type: number; data: string }[];
+    }>();
+    // CNAME chains come back alongside the final addresses
+    for (const record of answer.Answer ?? []) {
+      if (record.type === 1 || record.type === 28) addresses.push(record.data);
+    }
+  }
+
+  resolutionCache.set(hostname, {
+    addresses,
+    expiresAt: Date.now() + RESOLUTION_CACHE_MS,
+  });
+  return addresses;
+}
+
+// Check a probe target, returning why it's blocked or null if it's allowed.
+// A host whose addresses can't be looked up is blocked, since it can't be
+// vetted; hosts that simply don't exist are left for the probe to report.
+export async function checkUrlSafety(
+  env: Env,
+  url: string,
+  schemes: string[] = HTTP_SCHEMES,
+): Promise<string | null> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return "URL is not valid";
+  }
+
+  if (!schemes.includes(parsed.protocol)) {
+    return `${parsed.protocol.slice(0, -1)} URLs are not allowed (use ${schemes.map((s) => s.slice(0, -1)).join(" or ")})`;
+  }
+
+  // IPv6 literals keep their brackets in URL.hostname
+  const hostname = parsed.hostname
+    .toLowerCase()
+    .replace(/^\[|\]$/g, "")
+    .replace(/\.$/, "");
+  if (isAllowlisted(env, hostname)) return null;
+
+  if (
+    INTERNAL_HOSTNAMES.includes(hostname) ||
+    INTERNAL_SUFFIXES.some((suffix) => hostname.endsWith(suffix))
+  ) {
+    return `${hostname} is an internal host name`;
+  }
+
+  if (parseIPv4(hostname) !== null || parseIPv6(hostname) !== null) {
+    return isBlockedAddress(hostname)
+      ? `${hostname} is a private or reserved address`
+      : null;
+  }
+
+  let addresses: string[];
+  try {
+    addresses = await resolveAddresses(env, hostname);
+  } catch (error) {
+    console.error(`Error resolving ${hostname} for URL safety check:`, error);
+    return `could not resolve ${hostname}`;
+  }
+
+  const blocked = addresses.find(
+    (address) => isBlockedAddress(address) && !isAllowlisted(env, address),
+  );
+  return blocked
+    ? `${hostname} resolves to a private or reserved address (${blocked})`
+    : null;
+}
+
+// Throw a BlockedTargetError if a probe target isn't allowed
+export async function assertSafeUrl(
+  env: Env,
+  url: string,
+  schemes: string[] = HTTP_SCHEMES,
+): Promise<void> {
+  const reason = await checkUrlSafety(env, url, schemes);
+  if (reason) {
+    throw new BlockedTargetError(`Blocked target: ${reason}`);
+  }
+}
@@ -0,0 +1,264 @@
+/**
+ * WebSocket Probe Service
+ *
+ * Opens a WebSocket, optionally sends a message and waits for a matching
+ * reply. Handshake and round-trip latency are recorded separately.
+ */
+
+import type {
+  Endpoint,
+  ProbeErrorCategory,
+  ProbeResult,
+  ProbeResultStatus,
+  WebSocketConfig,
+} from "../models/types";
+import type { ProbeConfig } from "./probeEngine";
+import { createSecretResolver, SecretResolutionError } from "./secretVault";
+import { assertSafeUrl, BlockedTargetError } from "./urlSafety";
+
+// Outcome of waiting for a reply
+interface ReplyOutcome {
+  matched: boolean;
+  lastMessage?: string;
+  closed?: boolean;
+}
+
+// Workers open outbound WebSockets with an HTTP(S) upgrade request
+function toHttpUrl(url: string): string {
+  return url.replace(/^ws(s?):\/\//i, "http$1://");
+}
+
+// Truncate a message for use in an error
+function preview(message: string): string {
+  return message.length > 100 ? `${message.slice(0, 100)}...` : message;
+}
+
+// Resolve with the first message matching `pattern` (any message if null)
+function waitForReply(
+  socket: WebSocket,
+  pattern: RegExp | null,
+  timeoutMs: number,
+): Promise<ReplyOutcome> {
+  return new Promise((resolve) => {
+    let lastMessage: string | undefined;
+    const timer = setTimeout(
+      () => resolve({ matched: false, lastMessage }),
+      timeoutMs,
+    );
+
+    socket.addEventListener("message", (event) => {
+      lastMessage =
+        typeof event.data === "string"
+          ? event.data
+          : new TextDecoder().decode(event.data as ArrayBuffer);
+      if (!pattern || pattern.test(lastMessage)) {
+        clearTimeout(timer);
+        resolve({ matched: true, lastMessage });
+      }
+    });
+    socket.addEventListener("close", () => {
+      clearTimeout(timer);
+      resolve({ matched: false, lastMessage, closed: true });
+    });
+  });
+}
+
+// Probe a WebSocket endpoint
+export async function probeWebSocket(
+  endpoint: Endpoint,
+  config: ProbeConfig,
+): Promise<ProbeResult> {
+  const id = crypto.randomUUID();
+  const timestamp = new Date().toISOString();
+  const deadline = Date.now() + config.timeout * 1000;
+
+  const wsConfig: WebSocketConfig =
+    (typeof endpoint.probe_config === "string"
+      ? JSON.parse(endpoint.probe_config)
+      : (endpoint.probe_config as WebSocketConfig | null)) ?? {};
+
+  const result = (
+    status: ProbeResultStatus,
+    fields: Partial<ProbeResult> = {},
+    errorCategory?: ProbeErrorCategory,
+  ): ProbeResult => ({
+    id,
+    endpoint_id: endpoint.id,
+    timestamp,
+    status,
+    error_category: errorCategory,
+    region: config.region,
+    ...fields,
+  });
+
+  const resolveSecrets = createSecretResolver(config.env, endpoint.user_id);
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), config.timeout * 1000);
+
+  let socket: WebSocket | null = null;
+
+  try {
+    const headers: Record<string, string> = {
+      Upgrade: "websocket",
+      "User-Agent": "PulseAPI-Probe/1.0",
+    };
+    if (endpoint.headers) {
+      const customHeaders: Record<string, string> =
+        typeof endpoint.headers === "string"
+          ? JSON.parse(endpoint.headers)
+          : endpoint.headers;
+      for (const [key, value] of Object.entries(customHeaders)) {
+        headers[key] = await resolveSecrets(value);
+      }
+    }
+
+    const url = toHttpUrl(await resolveSecrets(endpoint.url));
+    const message = wsConfig.message
+      ? await resolveSecrets(wsConfig.message)
+      : undefined;
+
+    await assertSafeUrl(config.env, url);
+
+    const handshakeStart = performance.now();
+    const response = await fetch(url, {
+      headers,
+      redirect: "manual",
+      signal: controller.signal,
+    });
+    const handshakeMs = performance.now() - handshakeStart;
+    clearTimeout(timeoutId);
+
+    socket = response.webSocket;
+    if (!socket) {
+      return result(
+        "error",
+        {
+          latency_ms: handshakeMs,
+          status_code: response.status,
+          error_message: `WebSocket handshake failed: HTTP ${response.status}`,
+          details: { timings: { handshakeMs } },
+        },
+        "http_status",
+      );
+    }
+    socket.accept();
+
+    // Handshake-only probe
+    if (!message && !wsConfig.expectPattern) {
+      return result("success", {
+        latency_ms: handshakeMs,
+        status_code: 101,
+        details: { timings: { handshakeMs } },
+      });
+    }
+
+    const pattern = wsConfig.expectPattern
+      ? new RegExp(wsConfig.expectPattern)
+      : null;
+    const sentAt = performance.now();
+    const reply = waitForReply(
+      socket,
+      pattern,
+      Math.max(0, deadline - Date.now()),
+    );
+    if (message) socket.send(message);
+
+    const outcome = await reply;
+    const roundTripMs = performance.now() - sentAt;
+
+    if (outcome.matched) {
+      return result("success", {
+        latency_ms: handshakeMs + roundTripMs,
+        status_code: 101,
+        details: { timings: { handshakeMs, roundTripMs } },
+      });
+    }
+
+    // Messages arrived but none matched: the service answered wrongly
+    if (outcome.lastMessage !== undefined) {
+      return result(
+        "error",
+        {
+          latency_ms: handshakeMs,
+          status_code: 101,
+          error_message: `No reply matched /${wsConfig.expectPattern}/ (last: ${preview(outcome.lastMessage)})`,
+          details: { timings: { handshakeMs } },
+        },
+        "assertion",
+      );
+    }
+
+    if (outcome.closed) {
+      return result(
+        "error",
+        {
+          latency_ms: handshakeMs,
+          status_code: 101,
+          error_message: "Connection closed before a reply was received",
+          details: { timings: { handshakeMs } },
+        },
+        "network",
+      );
+    }
+
+    return result(
+      "timeout",
+      {
+        latency_ms: handshakeMs,
+        status_code: 101,
+        error_message: "Timed out waiting for a reply",
+        details: { timings: { handshakeMs } },
+      },
+      "timeout",
+    );
+  } catch (error: any) {
+    clearTimeout(timeoutId);
+
+    if (error instanceof SecretResolutionError) {
+      return result("error", { error_message: error.message }, "secret");
+    }
+    if (error instanceof BlockedTargetError) {
+      return result("error", { error_message: error.message }, "blocked");
+    }
+
+    const isTimeout = error.name === "AbortError";
+    return result(
+      isTimeout ? "timeout" : "error",
+      { error_message: isTimeout ? "Handshake timed out" : error.message },
+      isTimeout ? "timeout" : "network",
+    );
+  } finally {
+    try {
+      socket?.close(1000, "Probe complete");
+    } catch {
+      // Already closed by the server
+    }
+  }
+}
+
+// Validate a user-supplied WebSocket config, returning an error message if invalid
+export function validateWebSocketConfig(
+  input: unknown,
+  url: unknown,
+): string | null {
+  if (typeof url !== "string" || !/^wss?:\/\//i.test(url)) {
+    return "url must start with ws:// or wss://";
+  }
+  if (input === undefined || input === null) return null;
+
+  const config = input as WebSocketConfig;
+  if (typeof config !== "object") {
+    return "probeConfig must be an object";
+  }
+  if (config.message !== undefined && typeof config.message !== "string") {
+    return "probeConfig.message must be a string";
+  }
+  if (config.expectPattern !== undefined) {
+    try {
+      new RegExp(config.expectPattern);
+    } catch {
+      return "probeConfig.expectPattern must be a valid regular expression";
+    }
+  }
+  return null;
+}
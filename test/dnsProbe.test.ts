@@ -0,0 +1,153 @@
+import { env, fetchMock } from "cloudflare:test";
+import { afterAll, afterEach, beforeAll, describe, expect, it } from "vitest";
+import type { Env } from "../src/index";
+import type { Endpoint } from "../src/models/types";
+import { checkForRecordChange, probeDNS } from "../src/services/dnsProbe";
+
+// Stand-in DoH resolver; allowlisted so the URL safety check doesn't try to
+// resolve its host name
+const RESOLVER = "https://dns.example.test";
+const resolverEnv = { ...env, PROBE_HOST_ALLOWLIST: "dns.example.test" };
+
+function dnsEndpoint(config: object = {}): Endpoint {
+  return {
+    id: crypto.randomUUID(),
+    user_id: "user-1",
+    name: "Apex A records",
+    type: "dns",
+    url: "dns://example.com",
+    probe_config: JSON.stringify({
+      name: "example.com",
+      recordType: "A",
+      resolverUrl: `${RESOLVER}/dns-query`,
+      ...config,
+    }),
+  } as Endpoint;
+}
+
+// Answer the next A query for example.com from `origin`
+function answerQuery(body: object, origin = RESOLVER) {
+  fetchMock
+    .get(origin)
+    .intercept({
+      path: "/dns-query",
+      query: { name: "example.com", type: "A" },
+    })
+    .reply(200, body, {
+      headers: { "Content-Type": "application/dns-json" },
+    });
+}
+
+function aRecords(...addresses: string[]) {
+  return {
+    Status: 0,
+    Answer: addresses.map((data) => ({
+      name: "example.com.",
+      type: 1,
+      TTL: 300,
+      data,
+    })),
+  };
+}
+
+function probe(endpoint: Endpoint, probeEnv: Env = resolverEnv) {
+  return probeDNS(endpoint, { timeout: 2, region: "global", env: probeEnv });
+}
+
+beforeAll(() => {
+  fetchMock.activate();
+  fetchMock.disableNetConnect();
+});
+
+afterEach(() => {
+  fetchMock.assertNoPendingInterceptors();
+});
+
+afterAll(() => {
+  fetchMock.deactivate();
+});
+
+describe("probeDNS", () => {
+  it("records sorted answers when expected values resolve", async () => {
+    answerQuery(aRecords("93.184.216.35", "93.184.216.34"));
+
+    const result = await probe(
+      dnsEndpoint({ expectedValues: ["93.184.216.34"] }),
+    );
+
+    expect(result.status).toBe("success");
+    expect(result.details?.dnsRecords).toEqual([
+      "93.184.216.34",
+      "93.184.216.35",
+    ]);
+  });
+
+  it("fails resolution on a non-zero RCODE", async () => {
+    answerQuery({ Status: 3 });
+
+    const result = await probe(dnsEndpoint());
+
+    expect(result.status).toBe("error");
+    expect(result.error_category).toBe("dns");
+    expect(result.error_message).toBe("DNS resolution failed: NXDOMAIN");
+  });
+
+  it("fails the check when an expected value is missing", async () => {
+    answerQuery(aRecords("203.0.114.10"));
+
+    const result = await probe(
+      dnsEndpoint({ expectedValues: ["93.184.216.34"] }),
+    );
+
+    expect(result.status).toBe("error");
+    expect(result.error_category).toBe("assertion");
+  });
+
+  it("blocks a localhost resolver unless it is allowlisted", async () => {
+    const endpoint = dnsEndpoint({
+      resolverUrl: "https://localhost:8443/dns-query",
+    });
+
+    const blocked = await probe(endpoint);
+    expect(blocked.error_category).toBe("blocked");
+
+    answerQuery(aRecords("93.184.216.34"), "https://localhost:8443");
+    const allowed = await probe(endpoint, {
+      ...env,
+      PROBE_HOST_ALLOWLIST: "localhost",
+    });
+    expect(allowed.status).toBe("success");
+  });
+
+  it("blocks a resolver that redirects to an internal host", async () => {
+    fetchMock
+      .get(RESOLVER)
+      .intercept({ path: /^\/dns-query/ })
+      .reply(302, "", {
+        headers: { Location: "https://localhost:8443/dns-query" },
+      });
+
+    const result = await probe(dnsEndpoint());
+
+    expect(result.error_category).toBe("blocked");
+    expect(result.error_message).toBe(
+      "Blocked target: localhost is an internal host name",
+    );
+  });
+});
+
+describe("checkForRecordChange", () => {
+  it("reports added and removed records after the first answer", async () => {
+    const endpoint = dnsEndpoint();
+    answerQuery(aRecords("93.184.216.34"));
+    answerQuery(aRecords("93.184.216.35"));
+
+    const first = await probe(endpoint);
+    expect(await checkForRecordChange(env, endpoint, [first])).toBeNull();
+
+    const second = await probe(endpoint);
+    expect(await checkForRecordChange(env, endpoint, [second])).toBe(
+      "A records for example.com changed: added 93.184.216.35; removed 93.184.216.34 (global)",
+    );
+  });
+});
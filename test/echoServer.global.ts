@@ -0,0 +1,31 @@
+import { createRequire } from "node:module";
+import type { AddressInfo } from "node:net";
+import type { TestProject } from "vitest/node";
+
+// Loaded through Node: the workers pool resolves bare imports to the
+// package's browser build, which has no server
+const { WebSocketServer } = createRequire(import.meta.url)(
+  "ws",
+) as typeof import("ws");
+
+// Local WebSocket echo server for the WebSocket probe tests. Replies with
+// whatever it receives, and closes the connection when sent "close".
+export default async function setup({ provide }: TestProject) {
+  const server = new WebSocketServer({ host: "127.0.0.1", port: 0 });
+  await new Promise((resolve) => server.once("listening", resolve));
+
+  server.on("connection", (socket) => {
+    socket.on("message", (data, isBinary) => {
+      if (!isBinary && data.toString() === "close") {
+        socket.close(1000, "Bye");
+      } else {
+        socket.send(data, { binary: isBinary });
+      }
+    });
+  });
+
+  const { port } = server.address() as AddressInfo;
+  provide("echoServerUrl", `ws://127.0.0.1:${port}`);
+
+  return () => new Promise<void>((resolve) => server.close(() => resolve()));
+}
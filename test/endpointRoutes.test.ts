@@ -0,0 +1,209 @@
+import { SELF, env, fetchMock } from "cloudflare:test";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import {
+  createSigningKey,
+  insertEndpoint,
+  insertUser,
+  serveJwks,
+  signIdToken,
+} from "./helpers";
+
+let token: string;
+let endpointId: string;
+
+// A complete replacement body
+const replacement = {
+  name: "Orders",
+  type: "http",
+  url: "https://api.example.com/orders",
+  method: "GET",
+  headers: null,
+  body: null,
+  probeConfig: null,
+  authConfig: null,
+  retryPolicy: null,
+  redirectPolicy: null,
+  regions: null,
+  probeIntervalMinutes: 15,
+  probeIntervalSeconds: null,
+  timeoutSeconds: 10,
+  expectedStatusCodes: [200],
+  assertions: null,
+  responseSchema: null,
+  contentChange: null,
+  headerRules: null,
+  securityHeaders: false,
+};
+
+function request(method: string, path: string, body?: object) {
+  return SELF.fetch(`https://pulseapi.test${path}`, {
+    method,
+    headers: {
+      Authorization: `Bearer ${token}`,
+      ...(body ? { "Content-Type": "application/json" } : {}),
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+}
+
+beforeAll(async () => {
+  const key = await createSigningKey("routes-key");
+  token = await signIdToken(key, { sub: "user-1" });
+
+  fetchMock.activate();
+  fetchMock.disableNetConnect();
+  // Fetched once, then cached for the rest of the file
+  serveJwks([key]);
+});
+
+beforeEach(async () => {
+  await insertUser("user-1");
+  endpointId = await insertEndpoint("user-1", { probe_interval_minutes: 5 });
+});
+
+afterAll(() => {
+  fetchMock.deactivate();
+});
+
+describe("PUT /v1/endpoints/:id", () => {
+  it("replaces the endpoint when every field is sent", async () => {
+    const response = await request(
+      "PUT",
+      `/v1/endpoints/${endpointId}`,
+      replacement,
+    );
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({
+      success: true,
+      data: { name: "Orders", probeIntervalMinutes: 15 },
+    });
+  });
+
+  it("names the missing fields instead of resetting them", async () => {
+    const { timeoutSeconds, headers, ...partial } = replacement;
+
+    const response = await request("PUT", `/v1/endpoints/${endpointId}`, {
+      ...partial,
+      name: "Renamed",
+    });
+
+    expect(response.status).toBe(422);
+    const body = await response.json<{ errors: { field: string }[] }>();
+    expect(body.errors.map((error) => error.field)).toEqual([
+      "headers",
+      "timeoutSeconds",
+    ]);
+
+    const stored = await env.DB.prepare(
+      "SELECT name FROM endpoints WHERE id = ?",
+    )
+      .bind(endpointId)
+      .first();
+    expect(stored).toEqual({ name: "Health check" });
+  });
+});
+
+describe("plain-text credentials", () => {
+  let legacyId: string;
+
+  beforeEach(async () => {
+    legacyId = await insertEndpoint("user-1", {
+      method: "POST",
+      headers: JSON.stringify({
+        Accept: "application/json",
+        "X-API-Key": "live-key-123",
+        Authorization: "Bearer {{secret.ORDERS_TOKEN}}",
+      }),
+      body: JSON.stringify({ user: "probe", password: "hunter2" }),
+    });
+  });
+
+  it("redacts credential headers and body values in responses", async () => {
+    const response = await request("GET", `/v1/endpoints/${legacyId}`);
+    const { data } = await response.json<{
+      data: { headers: string; body: string };
+    }>();
+
+    expect(JSON.parse(data.headers)).toEqual({
+      Accept: "application/json",
+      "X-API-Key": "********",
+      Authorization: "Bearer {{secret.ORDERS_TOKEN}}",
+    });
+    expect(JSON.parse(data.body)).toEqual({
+      user: "probe",
+      password: "********",
+    });
+  });
+
+  it("keeps stored values when redacted ones are sent back", async () => {
+    const response = await request("PATCH", `/v1/endpoints/${legacyId}`, {
+      headers: { Accept: "application/json", "X-API-Key": "********" },
+      body: JSON.stringify({ user: "probe", password: "********" }),
+    });
+    expect(response.status).toBe(200);
+
+    const stored = await env.DB.prepare(
+      "SELECT headers, body FROM endpoints WHERE id = ?",
+    )
+      .bind(legacyId)
+      .first<{ headers: string; body: string }>();
+    expect(JSON.parse(stored!.headers)).toEqual({
+      Accept: "application/json",
+      "X-API-Key": "live-key-123",
+    });
+    expect(JSON.parse(stored!.body)).toEqual({
+      user: "probe",
+      password: "hunter2",
+    });
+  });
+
+  it("rejects a redacted body that was edited", async () => {
+    const response = await request("PATCH", `/v1/endpoints/${legacyId}`, {
+      body: JSON.stringify({ user: "other", password: "********" }),
+    });
+
+    expect(response.status).toBe(422);
+    expect(await response.json()).toMatchObject({
+      errors: [{ field: "body" }],
+    });
+  });
+
+  it("moves plain credentials into the vault", async () => {
+    const suffix = legacyId.replace(/-/g, "").slice(0, 8).toUpperCase();
+
+    const response = await request(
+      "POST",
+      `/v1/endpoints/${legacyId}/vault-credentials`,
+    );
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({
+      data: [
+        {
+          location: "header",
+          name: "X-API-Key",
+          secret: `X_API_KEY_${suffix}`,
+        },
+        { location: "body", name: "password", secret: `PASSWORD_${suffix}` },
+      ],
+    });
+
+    const stored = await env.DB.prepare(
+      "SELECT headers, body FROM endpoints WHERE id = ?",
+    )
+      .bind(legacyId)
+      .first<{ headers: string; body: string }>();
+    expect(JSON.parse(stored!.headers)["X-API-Key"]).toBe(
+      `{{secret.X_API_KEY_${suffix}}}`,
+    );
+    expect(JSON.parse(stored!.body).password).toBe(
+      `{{secret.PASSWORD_${suffix}}}`,
+    );
+
+    const again = await request(
+      "POST",
+      `/v1/endpoints/${legacyId}/vault-credentials`,
+    );
+    expect(await again.json()).toMatchObject({ data: [], meta: { total: 0 } });
+  });
+});
@@ -0,0 +1,55 @@
+import { env } from "cloudflare:test";
+import { describe, expect, it } from "vitest";
+import {
+  normalizeLegacyInput,
+  validateEndpointInput,
+  type EndpointInput,
+} from "../src/services/endpointValidation";
+
+// An endpoint as saved before intervals, timeouts and headers were bounded
+const legacy: EndpointInput = {
+  name: "Legacy check",
+  type: "http",
+  url: "https://api.example.com/health",
+  method: "GET",
+  headers: { "X-Retries": 3 as unknown as string, "X-Team": "core" },
+  probeIntervalMinutes: 2,
+  timeoutSeconds: 45,
+  expectedStatusCodes: [200],
+};
+
+describe("normalizeLegacyInput", () => {
+  it("brings legacy values within the current bounds", () => {
+    const normalized = normalizeLegacyInput(legacy);
+
+    expect(normalized).toMatchObject({
+      headers: { "X-Retries": "3", "X-Team": "core" },
+      probeIntervalMinutes: 5,
+      timeoutSeconds: 30,
+    });
+    expect(validateEndpointInput(legacy, env).errors).not.toEqual([]);
+    expect(validateEndpointInput(normalized, env).errors).toEqual([]);
+  });
+
+  it("snaps intervals up to the next supported one", () => {
+    expect(
+      normalizeLegacyInput({ ...legacy, probeIntervalMinutes: 20 })
+        .probeIntervalMinutes,
+    ).toBe(30);
+    expect(
+      normalizeLegacyInput({ ...legacy, probeIntervalMinutes: 90 })
+        .probeIntervalMinutes,
+    ).toBe(60);
+  });
+
+  it("leaves values that are already valid alone", () => {
+    const current = {
+      ...legacy,
+      headers: { "X-Team": "core" },
+      probeIntervalMinutes: 15,
+      timeoutSeconds: 10,
+    };
+
+    expect(normalizeLegacyInput(current)).toEqual(current);
+  });
+});
@@ -0,0 +1,15 @@
+import type { Env } from "../src/index";
+
+declare module "cloudflare:test" {
+  interface ProvidedEnv extends Env {
+    TEST_MIGRATIONS: D1Migration[];
+  }
+}
+
+declare module "vitest" {
+  interface ProvidedContext {
+    echoServerUrl: string;
+    smtpServerUrl: string;
+    silentServerUrl: string;
+  }
+}
@@ -0,0 +1,141 @@
+import { SELF, env, fetchMock } from "cloudflare:test";
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+import { verifyIdToken } from "../src/services/firebaseAuth";
+import {
+  createSigningKey,
+  serveJwks,
+  signIdToken,
+  type SigningKey,
+} from "./helpers";
+
+let signingKey: SigningKey;
+let rotatedKey: SigningKey;
+
+// Each test starts two hours after the previous one, so the cached JWKS
+// (max-age one hour) has always expired and is fetched exactly once
+let clock = Date.parse("2026-10-19T12:00:00.000Z");
+
+beforeAll(async () => {
+  signingKey = await createSigningKey("key-1");
+  rotatedKey = await createSigningKey("key-2");
+  fetchMock.activate();
+  fetchMock.disableNetConnect();
+});
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ["Date"] });
+  clock += 2 * 60 * 60 * 1000;
+  vi.setSystemTime(clock);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  fetchMock.assertNoPendingInterceptors();
+});
+
+afterAll(() => {
+  fetchMock.deactivate();
+});
+
+describe("verifyIdToken", () => {
+  it("returns the user for a valid token", async () => {
+    serveJwks([signingKey]);
+    const token = await signIdToken(signingKey, { email: "ada@example.com" });
+
+    expect(await verifyIdToken(env, token)).toEqual({
+      userId: "user-1",
+      email: "ada@example.com",
+    });
+  });
+
+  it("rejects a token signed by a different key", async () => {
+    serveJwks([signingKey]);
+    const impostor = await createSigningKey(signingKey.kid);
+    const token = await signIdToken(impostor);
+
+    await expect(verifyIdToken(env, token)).rejects.toThrow(
+      "Token signature is invalid",
+    );
+  });
+
+  it("rejects a token for another project", async () => {
+    serveJwks([signingKey]);
+
+    await expect(
+      verifyIdToken(env, await signIdToken(signingKey, { aud: "other" })),
+    ).rejects.toThrow("Token has the wrong audience");
+    await expect(
+      verifyIdToken(
+        env,
+        await signIdToken(signingKey, {
+          iss: "https://securetoken.google.com/other",
+        }),
+      ),
+    ).rejects.toThrow("Token has the wrong issuer");
+  });
+
+  it("rejects an expired token", async () => {
+    serveJwks([signingKey]);
+    const now = Math.floor(Date.now() / 1000);
+    const token = await signIdToken(signingKey, {
+      iat: now - 7200,
+      auth_time: now - 7200,
+      exp: now - 3600,
+    });
+
+    await expect(verifyIdToken(env, token)).rejects.toThrow(
+      "Token has expired",
+    );
+  });
+
+  it("refetches the keys for an unknown key id at most once a minute", async () => {
+    serveJwks([signingKey]);
+    await verifyIdToken(env, await signIdToken(signingKey));
+
+    // Fetched moments ago, so the rotated key isn't looked up yet
+    await expect(
+      verifyIdToken(env, await signIdToken(rotatedKey)),
+    ).rejects.toThrow("Token was signed with an unknown key");
+
+    vi.setSystemTime(clock + 61_000);
+    serveJwks([signingKey, rotatedKey]);
+
+    expect(await verifyIdToken(env, await signIdToken(rotatedKey))).toEqual({
+      userId: "user-1",
+      email: null,
+    });
+  });
+});
+
+describe("requireAuth", () => {
+  it("returns 401 without a bearer token", async () => {
+    const response = await SELF.fetch("https://pulseapi.test/v1/endpoints");
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toEqual({
+      success: false,
+      error: "Authorization bearer token required",
+    });
+  });
+
+  it("returns 401 for a malformed token", async () => {
+    const response = await SELF.fetch("https://pulseapi.test/v1/endpoints", {
+      headers: { Authorization: "Bearer not-a-token" },
+    });
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toEqual({
+      success: false,
+      error: "Token is malformed",
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import { SELF, env } from "cloudflare:test";
+import { beforeEach, describe, expect, it } from "vitest";
+import { insertEndpoint, insertUser } from "./helpers";
+
+const TOKEN = "heartbeat-token";
+
+let endpointId: string;
+
+// Send a ping with an optional raw JSON body
+function ping(query = "", body?: string): Promise<Response> {
+  return SELF.fetch(`https://pulseapi.test/v1/heartbeats/${TOKEN}${query}`, {
+    method: "POST",
+    headers: body !== undefined ? { "Content-Type": "application/json" } : {},
+    body,
+  });
+}
+
+async function openIncidentCount(): Promise<number> {
+  const row = await env.DB.prepare(
+    "SELECT COUNT(*) AS count FROM incidents WHERE endpoint_id = ? AND status != 'resolved'",
+  )
+    .bind(endpointId)
+    .first<{ count: number }>();
+  return row!.count;
+}
+
+async function lastPingAt(): Promise<string | null> {
+  const row = await env.DB.prepare(
+    "SELECT last_ping_at FROM endpoints WHERE id = ?",
+  )
+    .bind(endpointId)
+    .first<{ last_ping_at: string | null }>();
+  return row!.last_ping_at;
+}
+
+async function storedStatuses(): Promise<string[]> {
+  const { results } = await env.DB.prepare(
+    "SELECT status FROM probe_results WHERE endpoint_id = ? ORDER BY timestamp",
+  )
+    .bind(endpointId)
+    .all<{ status: string }>();
+  return results.map((row) => row.status);
+}
+
+describe("heartbeat pings", () => {
+  beforeEach(async () => {
+    await insertUser("user-1");
+    endpointId = await insertEndpoint("user-1", {
+      type: "heartbeat",
+      url: `heartbeat://${TOKEN}`,
+      heartbeat_token: TOKEN,
+      probe_config: JSON.stringify({ periodSeconds: 300, graceSeconds: 60 }),
+    });
+  });
+
+  it("records a success ping and resets the lateness clock", async () => {
+    const response = await ping();
+
+    expect(response.status).toBe(200);
+    expect(await storedStatuses()).toEqual(["success"]);
+    expect(await lastPingAt()).not.toBeNull();
+  });
+
+  it("opens one incident on fail pings without resetting the clock", async () => {
+    await ping("?state=fail", JSON.stringify({ message: "exit code 1" }));
+    await ping("?state=fail");
+
+    expect(await openIncidentCount()).toBe(1);
+    expect(await storedStatuses()).toEqual(["error", "error"]);
+    expect(await lastPingAt()).toBeNull();
+
+    const incident = await env.DB.prepare(
+      "SELECT title, description FROM incidents WHERE endpoint_id = ?",
+    )
+      .bind(endpointId)
+      .first<{ title: string; description: string }>();
+    expect(incident).toEqual({
+      title: "Health check reported a failed run",
+      description: "exit code 1",
+    });
+  });
+
+  it("stores start pings without resetting the clock or resolving incidents", async () => {
+    await ping("?state=fail");
+    await ping("?state=start");
+
+    expect(await openIncidentCount()).toBe(1);
+    expect(await lastPingAt()).toBeNull();
+
+    const { results } = await env.DB.prepare(
+      "SELECT latency_ms, details, region FROM probe_results WHERE endpoint_id = ? ORDER BY timestamp",
+    )
+      .bind(endpointId)
+      .all<{ latency_ms: number | null; details: string; region: string }>();
+    expect(results).toHaveLength(2);
+    expect(results[1]).toEqual({
+      latency_ms: null,
+      details: JSON.stringify({ heartbeat: { state: "start" } }),
+      region: "heartbeat",
+    });
+  });
+
+  it("leaves start pings out of the health summary", async () => {
+    await ping("?state=fail");
+    await ping("?state=start");
+    await ping("?state=fail");
+
+    const summary = await env.STATUS_KV.get<{ error_rate: number }>(
+      `health:${endpointId}`,
+      "json",
+    );
+    expect(summary?.error_rate).toBe(1);
+  });
+
+  it("times a run from its start ping when no duration is sent", async () => {
+    await ping("?state=start");
+    await ping("?state=success");
+
+    const row = await env.DB.prepare(
+      "SELECT latency_ms, details FROM probe_results WHERE endpoint_id = ? AND status = 'success' ORDER BY timestamp DESC LIMIT 1",
+    )
+      .bind(endpointId)
+      .first<{ latency_ms: number; details: string }>();
+    expect(row!.latency_ms).toBeGreaterThanOrEqual(0);
+    expect(JSON.parse(row!.details).heartbeat).toEqual({
+      state: "success",
+      durationMs: row!.latency_ms,
+    });
+  });
+
+  it("resolves the incident on the next success ping", async () => {
+    await ping("?state=fail");
+    await ping("?state=success");
+
+    expect(await openIncidentCount()).toBe(0);
+  });
+
+  it("treats a non-object JSON body as empty", async () => {
+    const response = await ping("", "null");
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({
+      success: true,
+      data: { state: "success" },
+    });
+  });
+});
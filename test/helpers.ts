@@ -0,0 +1,126 @@
+import { env, fetchMock } from "cloudflare:test";
+
+// Insert a user on the free plan
+export async function insertUser(id: string): Promise<void> {
+  await env.DB.prepare("INSERT INTO users (id, email) VALUES (?, ?)")
+    .bind(id, `${id}@example.com`)
+    .run();
+}
+
+// Insert an endpoint owned by `userId`, returning its id; `columns`
+// overrides the defaults
+export async function insertEndpoint(
+  userId: string,
+  columns: Record<string, unknown> = {},
+): Promise<string> {
+  const row: Record<string, unknown> = {
+    id: crypto.randomUUID(),
+    user_id: userId,
+    name: "Health check",
+    url: "https://api.example.com/health",
+    ...columns,
+  };
+  const names = Object.keys(row);
+
+  await env.DB.prepare(
+    `INSERT INTO endpoints (${names.join(", ")}) VALUES (${names.map(() => "?").join(", ")})`,
+  )
+    .bind(...Object.values(row))
+    .run();
+  return row.id as string;
+}
+
+// Matches FIREBASE_PROJECT_ID and FIREBASE_JWKS_URL in vitest.config.ts
+const FIREBASE_PROJECT_ID = "pulseapi-test";
+const JWKS_ORIGIN = "https://jwks.test";
+
+// RS256 key used to sign test ID tokens, with its public JWK
+export interface SigningKey {
+  kid: string;
+  privateKey: CryptoKey;
+  jwk: JsonWebKey & { kid: string };
+}
+
+// Generate an RS256 key pair published under `kid`
+export async function createSigningKey(kid: string): Promise<SigningKey> {
+  const pair = (await crypto.subtle.generateKey(
+    {
+      name: "RSASSA-PKCS1-v1_5",
+      modulusLength: 2048,
+      publicExponent: new Uint8Array([1, 0, 1]),
+      hash: "SHA-256",
+    },
+    true,
+    ["sign", "verify"],
+  )) as CryptoKeyPair;
+  const jwk = (await crypto.subtle.exportKey(
+    "jwk",
+    pair.publicKey,
+  )) as JsonWebKey;
+
+  return {
+    kid,
+    privateKey: pair.privateKey,
+    jwk: { ...jwk, kid, alg: "RS256", use: "sig" },
+  };
+}
+
+// Answer the next JWKS request with `keys`
+export function serveJwks(keys: SigningKey[], maxAgeSeconds = 3600): void {
+  fetchMock
+    .get(JWKS_ORIGIN)
+    .intercept({ path: "/keys" })
+    .reply(
+      200,
+      { keys: keys.map((key) => key.jwk) },
+      {
+        headers: {
+          "Content-Type": "application/json",
+          "Cache-Control": `public, max-age=${maxAgeSeconds}`,
+        },
+      },
+    );
+}
+
+function base64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function encodeSegment(value: object): string {
+  return base64Url(new TextEncoder().encode(JSON.stringify(value)));
+}
+
+// Sign a Firebase ID token for `claims.sub` (default user-1), valid for an
+// hour from now; `claims` and `header` override the defaults
+export async function signIdToken(
+  key: SigningKey,
+  claims: Record<string, unknown> = {},
+  header: Record<string, unknown> = {},
+): Promise<string> {
+  const now = Math.floor(Date.now() / 1000);
+  const headerSegment = encodeSegment({
+    alg: "RS256",
+    kid: key.kid,
+    typ: "JWT",
+    ...header,
+  });
+  const payloadSegment = encodeSegment({
+    iss: `https://securetoken.google.com/${FIREBASE_PROJECT_ID}`,
+    aud: FIREBASE_PROJECT_ID,
+    sub: "user-1",
+    iat: now,
+    exp: now + 3600,
+    auth_time: now,
+    ...claims,
+  });
+
+  const signature = await crypto.subtle.sign(
+    "RSASSA-PKCS1-v1_5",
+    key.privateKey,
+    new TextEncoder().encode(`${headerSegment}.${payloadSegment}`),
+  );
+  return `${headerSegment}.${payloadSegment}.${base64Url(new Uint8Array(signature))}`;
+}
@@ -0,0 +1,190 @@
+import { SELF, env, fetchMock } from "cloudflare:test";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import {
+  createSigningKey,
+  insertEndpoint,
+  insertUser,
+  serveJwks,
+  signIdToken,
+} from "./helpers";
+
+const OWNER = "user-1";
+const OTHER_USER = "user-2";
+
+let ownerToken: string;
+let otherToken: string;
+let endpointId: string;
+let incidentId: string;
+
+// Every route guarded by requireOwnership; ids are filled in per test
+const GUARDED_ROUTES: {
+  method: string;
+  path: string;
+  body?: object;
+  notFound: string;
+}[] = [
+  {
+    method: "GET",
+    path: "/v1/endpoints/:endpointId",
+    notFound: "Endpoint not found",
+  },
+  {
+    method: "GET",
+    path: "/v1/endpoints/:endpointId/health",
+    notFound: "Endpoint not found",
+  },
+  {
+    method: "GET",
+    path: "/v1/endpoints/:endpointId/changes",
+    notFound: "Endpoint not found",
+  },
+  {
+    method: "PUT",
+    path: "/v1/endpoints/:endpointId",
+    body: { name: "Hijacked", url: "https://api.example.com/health" },
+    notFound: "Endpoint not found",
+  },
+  {
+    method: "PATCH",
+    path: "/v1/endpoints/:endpointId",
+    body: { name: "Hijacked" },
+    notFound: "Endpoint not found",
+  },
+  {
+    method: "DELETE",
+    path: "/v1/endpoints/:endpointId",
+    notFound: "Endpoint not found",
+  },
+  {
+    method: "POST",
+    path: "/v1/endpoints/:endpointId/pause",
+    notFound: "Endpoint not found",
+  },
+  {
+    method: "POST",
+    path: "/v1/endpoints/:endpointId/resume",
+    notFound: "Endpoint not found",
+  },
+  {
+    method: "POST",
+    path: "/v1/endpoints/:endpointId/vault-credentials",
+    notFound: "Endpoint not found",
+  },
+  {
+    method: "POST",
+    path: "/v1/endpoints/:endpointId/probe",
+    notFound: "Endpoint not found",
+  },
+  {
+    method: "GET",
+    path: "/v1/incidents/:incidentId",
+    notFound: "Incident not found",
+  },
+  {
+    method: "PATCH",
+    path: "/v1/incidents/:incidentId/status",
+    body: { status: "resolved" },
+    notFound: "Incident not found",
+  },
+  {
+    method: "GET",
+    path: "/v1/probes/history/:endpointId",
+    notFound: "Endpoint not found",
+  },
+  {
+    method: "GET",
+    path: "/v1/probes/stats/:endpointId",
+    notFound: "Endpoint not found",
+  },
+];
+
+function request(
+  token: string,
+  method: string,
+  path: string,
+  body?: object,
+): Promise<Response> {
+  return SELF.fetch(`https://pulseapi.test${path}`, {
+    method,
+    headers: {
+      Authorization: `Bearer ${token}`,
+      ...(body ? { "Content-Type": "application/json" } : {}),
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+}
+
+beforeAll(async () => {
+  const key = await createSigningKey("ownership-key");
+  ownerToken = await signIdToken(key, { sub: OWNER });
+  otherToken = await signIdToken(key, { sub: OTHER_USER });
+
+  fetchMock.activate();
+  fetchMock.disableNetConnect();
+  // Fetched once, then cached for the rest of the file
+  serveJwks([key]);
+});
+
+beforeEach(async () => {
+  await insertUser(OWNER);
+  await insertUser(OTHER_USER);
+  endpointId = await insertEndpoint(OWNER);
+
+  const now = new Date().toISOString();
+  incidentId = crypto.randomUUID();
+  await env.DB.prepare(
+    `
+    INSERT INTO incidents (id, endpoint_id, type, severity, status, started_at, title, created_at, updated_at)
+    VALUES (?, ?, 'complete_outage', 'major', 'active', ?, 'Health check is down', ?, ?)
+  `,
+  )
+    .bind(incidentId, endpointId, now, now, now)
+    .run();
+});
+
+afterAll(() => {
+  fetchMock.deactivate();
+});
+
+describe("resource ownership", () => {
+  it("lets the owner read their endpoint", async () => {
+    const response = await request(
+      ownerToken,
+      "GET",
+      `/v1/endpoints/${endpointId}`,
+    );
+
+    expect(response.status).toBe(200);
+  });
+
+  it.each(GUARDED_ROUTES)(
+    "returns 404 to another user for $method $path",
+    async ({ method, path, body, notFound }) => {
+      const url = path
+        .replace(":endpointId", endpointId)
+        .replace(":incidentId", incidentId);
+      const response = await request(otherToken, method, url, body);
+
+      expect(response.status).toBe(404);
+      expect(await response.json()).toEqual({
+        success: false,
+        error: notFound,
+      });
+
+      // Nothing the other user sent was applied
+      const endpoint = await env.DB.prepare(
+        "SELECT name, is_active FROM endpoints WHERE id = ?",
+      )
+        .bind(endpointId)
+        .first();
+      expect(endpoint).toEqual({ name: "Health check", is_active: 1 });
+
+      const incident = await env.DB.prepare(
+        "SELECT status FROM incidents WHERE id = ?",
+      )
+        .bind(incidentId)
+        .first();
+      expect(incident).toEqual({ status: "active" });
+    },
+  );
+});
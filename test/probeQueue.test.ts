@@ -0,0 +1,167 @@
+import {
+  createExecutionContext,
+  createMessageBatch,
+  env,
+  fetchMock,
+  getQueueResult,
+} from "cloudflare:test";
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+} from "vitest";
+import worker from "../src/index";
+import {
+  DEAD_LETTER_QUEUE,
+  enqueueDueEndpoints,
+  type ProbeJob,
+} from "../src/services/probeQueue";
+import { insertEndpoint, insertUser } from "./helpers";
+
+const PROBE_QUEUE = "pulseapi-probes";
+
+// Queue message carrying a probe job for `endpointId`
+function probeMessage(endpointId: string, attempts = 1) {
+  return {
+    id: crypto.randomUUID(),
+    timestamp: new Date(),
+    attempts,
+    body: {
+      endpointId,
+      intervalMinutes: 5,
+      scheduledAt: new Date().toISOString(),
+    },
+  };
+}
+
+// Deliver a batch to the Worker's queue handler and collect ack/retry state
+async function deliver(queueName: string, endpointIds: string[]) {
+  const batch = createMessageBatch<ProbeJob>(
+    queueName,
+    endpointIds.map((endpointId) => probeMessage(endpointId)),
+  );
+  const ctx = createExecutionContext();
+  await worker.queue(batch, env);
+  return { batch, result: await getQueueResult(batch, ctx) };
+}
+
+async function probeCount(endpointId: string): Promise<number> {
+  const row = await env.DB.prepare(
+    "SELECT COUNT(*) AS count FROM probe_results WHERE endpoint_id = ?",
+  )
+    .bind(endpointId)
+    .first<{ count: number }>();
+  return row!.count;
+}
+
+beforeAll(() => {
+  fetchMock.activate();
+  fetchMock.disableNetConnect();
+});
+
+afterEach(() => {
+  fetchMock.assertNoPendingInterceptors();
+});
+
+afterAll(() => {
+  fetchMock.deactivate();
+});
+
+beforeEach(async () => {
+  await insertUser("user-1");
+});
+
+describe("enqueueDueEndpoints", () => {
+  it("claims due endpoints and enqueues one delayed job each", async () => {
+    const due = await insertEndpoint("user-1");
+    await insertEndpoint("user-1", {
+      next_probe_at: "2099-01-01T00:00:00.000Z",
+    });
+    await insertEndpoint("user-1", { is_active: 0 });
+
+    const sent: MessageSendRequest<ProbeJob>[] = [];
+    const queue = {
+      sendBatch: async (messages: Iterable<MessageSendRequest<ProbeJob>>) => {
+        sent.push(...messages);
+      },
+    } as unknown as Queue<ProbeJob>;
+
+    const tickTime = new Date("2026-10-19T12:00:00.000Z");
+    expect(await enqueueDueEndpoints(env, queue, tickTime)).toBe(1);
+
+    expect(sent).toHaveLength(1);
+    expect(sent[0].body).toEqual({
+      endpointId: due,
+      intervalMinutes: 5,
+      scheduledAt: tickTime.toISOString(),
+    });
+    expect(sent[0].delaySeconds).toBeGreaterThanOrEqual(0);
+    expect(sent[0].delaySeconds).toBeLessThan(20);
+
+    const endpoint = await env.DB.prepare(
+      "SELECT next_probe_at FROM endpoints WHERE id = ?",
+    )
+      .bind(due)
+      .first<{ next_probe_at: string }>();
+    expect(endpoint!.next_probe_at).toBe("2026-10-19T12:05:00.000Z");
+  });
+});
+
+describe("probe queue consumer", () => {
+  it("acks a job once its probe is stored", async () => {
+    const endpointId = await insertEndpoint("user-1");
+    fetchMock
+      .get("https://api.example.com")
+      .intercept({ path: "/health" })
+      .reply(200, "ok");
+
+    const { batch, result } = await deliver(PROBE_QUEUE, [endpointId]);
+
+    expect(result.explicitAcks).toEqual([batch.messages[0].id]);
+    expect(result.retryMessages).toEqual([]);
+    expect(await probeCount(endpointId)).toBe(1);
+  });
+
+  it("acks jobs for paused or deleted endpoints without probing", async () => {
+    const paused = await insertEndpoint("user-1", { is_active: 0 });
+
+    const { batch, result } = await deliver(PROBE_QUEUE, [paused, "deleted"]);
+
+    expect(result.explicitAcks).toEqual(batch.messages.map((m) => m.id));
+    expect(await probeCount(paused)).toBe(0);
+  });
+
+  it("retries only the job that failed", async () => {
+    const endpointId = await insertEndpoint("user-1");
+    fetchMock
+      .get("https://api.example.com")
+      .intercept({ path: "/health" })
+      .reply(200, "ok");
+    // Storing results fails when the table is gone
+    await env.DB.exec("DROP TABLE probe_results");
+
+    const { batch, result } = await deliver(PROBE_QUEUE, [
+      endpointId,
+      "deleted",
+    ]);
+
+    expect(result.retryMessages.map((m) => m.msgId)).toEqual([
+      batch.messages[0].id,
+    ]);
+    expect(result.explicitAcks).toEqual([batch.messages[1].id]);
+  });
+
+  it("acks dead-lettered jobs without probing them", async () => {
+    const endpointId = await insertEndpoint("user-1");
+
+    const { batch, result } = await deliver(DEAD_LETTER_QUEUE, [endpointId]);
+
+    expect(result.explicitAcks).toEqual([batch.messages[0].id]);
+    expect(result.retryMessages).toEqual([]);
+    expect(await probeCount(endpointId)).toBe(0);
+  });
+});
@@ -0,0 +1,91 @@
+import { fetchMock } from "cloudflare:test";
+import { afterAll, afterEach, beforeAll, describe, expect, it } from "vitest";
+import {
+  DEFAULT_REDIRECT_POLICY,
+  fetchWithRedirects,
+} from "../src/services/redirectPolicy";
+
+const ORIGIN = "https://api.example.com";
+
+// Headers a probe sends, with a resolved {{secret.*}} value among them
+const PROBE_HEADERS = {
+  Accept: "application/json",
+  "User-Agent": "PulseAPI-Monitor/1.0",
+  Authorization: "Bearer live-token",
+  "X-API-Key": "live-key-123",
+  Cookie: "session=abc",
+};
+
+// Redirect `path` on the API to `location`
+function redirect(path: string, location: string) {
+  fetchMock
+    .get(ORIGIN)
+    .intercept({ path })
+    .reply(302, "", { headers: { Location: location } });
+}
+
+// Answer `path` on `origin`, returning the request headers it received
+function capture(origin: string, path: string): Headers {
+  const received = new Headers();
+  fetchMock
+    .get(origin)
+    .intercept({ path })
+    .reply((request) => {
+      for (const [name, value] of Object.entries(
+        request.headers as Record<string, string>,
+      )) {
+        received.set(name, value);
+      }
+      return { statusCode: 200, data: "ok" };
+    });
+  return received;
+}
+
+function follow(path: string) {
+  return fetchWithRedirects(
+    `${ORIGIN}${path}`,
+    { method: "GET", headers: PROBE_HEADERS },
+    DEFAULT_REDIRECT_POLICY,
+  );
+}
+
+beforeAll(() => {
+  fetchMock.activate();
+  fetchMock.disableNetConnect();
+});
+
+afterEach(() => {
+  fetchMock.assertNoPendingInterceptors();
+});
+
+afterAll(() => {
+  fetchMock.deactivate();
+});
+
+describe("fetchWithRedirects", () => {
+  it("keeps every header on a same-origin redirect", async () => {
+    redirect("/old", "/new");
+    const received = capture(ORIGIN, "/new");
+
+    const { finalUrl } = await follow("/old");
+
+    expect(finalUrl).toBe(`${ORIGIN}/new`);
+    expect(received.get("X-API-Key")).toBe("live-key-123");
+    expect(received.get("Authorization")).toBe("Bearer live-token");
+  });
+
+  it("forwards only safe headers to another origin", async () => {
+    redirect("/old", "https://elsewhere.example.net/landing");
+    const received = capture("https://elsewhere.example.net", "/landing");
+
+    const { response, hops } = await follow("/old");
+
+    expect(response.status).toBe(200);
+    expect(hops).toHaveLength(1);
+    expect(received.get("Accept")).toBe("application/json");
+    expect(received.get("User-Agent")).toBe("PulseAPI-Monitor/1.0");
+    expect(received.has("X-API-Key")).toBe(false);
+    expect(received.has("Authorization")).toBe(false);
+    expect(received.has("Cookie")).toBe(false);
+  });
+});
@@ -0,0 +1,5 @@
+import { applyD1Migrations, env } from "cloudflare:test";
+
+// Setup files run outside isolated storage, so the schema is shared by
+// every test while rows written in a test are rolled back after it
+await applyD1Migrations(env.DB, env.TEST_MIGRATIONS);
@@ -0,0 +1,114 @@
+import { env } from "cloudflare:test";
+import { describe, expect, inject, it } from "vitest";
+import type { Env } from "../src/index";
+import type { Endpoint } from "../src/models/types";
+import { probeTCP, validateTCPConfig } from "../src/services/tcpProbe";
+
+const smtpServerUrl = inject("smtpServerUrl");
+const silentServerUrl = inject("silentServerUrl");
+
+// The test servers listen on loopback, which probes may only reach when
+// the operator allowlists it
+const allowlistedEnv = { ...env, PROBE_HOST_ALLOWLIST: "127.0.0.1" };
+
+function tcpEndpoint(url: string, probeConfig: object | null = null): Endpoint {
+  return {
+    id: crypto.randomUUID(),
+    user_id: "user-1",
+    name: "Mail server",
+    type: "tcp",
+    url,
+    probe_config: probeConfig && JSON.stringify(probeConfig),
+  } as Endpoint;
+}
+
+function probe(
+  endpoint: Endpoint,
+  timeout = 2,
+  probeEnv: Env = allowlistedEnv,
+) {
+  return probeTCP(endpoint, { timeout, region: "global", env: probeEnv });
+}
+
+describe("probeTCP", () => {
+  it("succeeds when the banner starts with the expected prefix", async () => {
+    const result = await probe(
+      tcpEndpoint(smtpServerUrl, { expectPrefix: "220" }),
+    );
+
+    expect(result.status).toBe("success");
+    expect(result.details?.timings?.roundTripMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it("fails when the banner has another prefix", async () => {
+    const result = await probe(
+      tcpEndpoint(smtpServerUrl, { expectPrefix: "SSH-" }),
+    );
+
+    expect(result.status).toBe("error");
+    expect(result.error_category).toBe("assertion");
+    expect(result.error_message).toBe(
+      'Expected response starting with "SSH-", got "220-mail.test ESMTP"',
+    );
+  });
+
+  it("sends the payload and checks the reply", async () => {
+    const result = await probe(
+      tcpEndpoint(silentServerUrl, {
+        payload: "PING\r\n",
+        expectPrefix: "+PONG",
+      }),
+    );
+
+    expect(result.status).toBe("success");
+  });
+
+  it("times out when no response arrives", async () => {
+    const result = await probe(
+      tcpEndpoint(silentServerUrl, { expectPrefix: "+OK" }),
+      1,
+    );
+
+    expect(result.status).toBe("timeout");
+    expect(result.error_category).toBe("timeout");
+    expect(result.error_message).toBe("Timed out waiting for a response");
+  });
+
+  it("reads whole replies before checking the STARTTLS answer", async () => {
+    // The greeting and the EHLO reply span several lines; the prefix is
+    // checked against the reply to STARTTLS itself
+    const result = await probe(
+      tcpEndpoint(smtpServerUrl, {
+        tls: "starttls",
+        payload: "EHLO probe.example\r\nSTARTTLS\r\n",
+        expectPrefix: "220",
+      }),
+    );
+
+    expect(result.status).toBe("error");
+    expect(result.error_category).toBe("assertion");
+    expect(result.error_message).toBe(
+      'Expected response starting with "220", got "454 TLS not available"',
+    );
+  });
+
+  it("blocks loopback targets unless they are allowlisted", async () => {
+    const result = await probe(tcpEndpoint(smtpServerUrl), 2, env);
+
+    expect(result.status).toBe("error");
+    expect(result.error_category).toBe("blocked");
+  });
+});
+
+describe("validateTCPConfig", () => {
+  it("requires STARTTLS payloads to end with a line break", () => {
+    expect(
+      validateTCPConfig(
+        { tls: "starttls", payload: "STARTTLS" },
+        "tcp://mail.example.com:25",
+      ),
+    ).toBe(
+      "probeConfig.payload must end with a line break when tls is starttls",
+    );
+  });
+});
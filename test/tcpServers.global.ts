@@ -0,0 +1,64 @@
+import {
+  createServer,
+  type AddressInfo,
+  type Server,
+  type Socket,
+} from "node:net";
+import type { TestProject } from "vitest/node";
+
+// Start a TCP server on a free loopback port, returning its tcp:// URL
+async function listen(server: Server): Promise<string> {
+  await new Promise<void>((resolve) =>
+    server.listen(0, "127.0.0.1", () => resolve()),
+  );
+  const { port } = server.address() as AddressInfo;
+  return `tcp://127.0.0.1:${port}`;
+}
+
+// Local TCP servers for the TCP probe tests:
+// - an SMTP-like server that greets with a multi-line banner (sent in two
+//   chunks), answers EHLO with a multi-line reply and refuses STARTTLS
+// - a silent server that only answers "PING" with "+PONG"
+export default async function setup({ provide }: TestProject) {
+  const sockets = new Set<Socket>();
+  const track = (socket: Socket) => {
+    sockets.add(socket);
+    socket.on("close", () => sockets.delete(socket));
+    socket.on("error", () => {});
+  };
+
+  const smtpServer = createServer((socket) => {
+    track(socket);
+    socket.write("220-mail.test ESMTP\r\n");
+    setTimeout(() => socket.write("220 ready\r\n"), 20);
+
+    socket.on("data", (data) => {
+      for (const command of data.toString().split("\r\n").filter(Boolean)) {
+        if (command.startsWith("EHLO")) {
+          socket.write("250-mail.test\r\n250-SIZE 1000\r\n250 STARTTLS\r\n");
+        } else if (command === "STARTTLS") {
+          socket.write("454 TLS not available\r\n");
+        } else {
+          socket.write("500 Unknown command\r\n");
+        }
+      }
+    });
+  });
+
+  const silentServer = createServer((socket) => {
+    track(socket);
+    socket.on("data", (data) => {
+      if (data.toString() === "PING\r\n") socket.write("+PONG\r\n");
+    });
+  });
+
+  provide("smtpServerUrl", await listen(smtpServer));
+  provide("silentServerUrl", await listen(silentServer));
+
+  return async () => {
+    for (const socket of sockets) socket.destroy();
+    for (const server of [smtpServer, silentServer]) {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  };
+}
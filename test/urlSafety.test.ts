@@ -0,0 +1,86 @@
+import { env, fetchMock } from "cloudflare:test";
+import { afterAll, afterEach, beforeAll, describe, expect, it } from "vitest";
+import type { Endpoint } from "../src/models/types";
+import { probeEndpoint } from "../src/services/probeEngine";
+import { checkUrlSafety } from "../src/services/urlSafety";
+
+// Stand-in resolver used by the URL safety check's own lookups
+const RESOLVER = "https://resolver.example.test";
+const resolverEnv = { ...env, DOH_RESOLVER_URL: `${RESOLVER}/dns-query` };
+
+beforeAll(() => {
+  fetchMock.activate();
+  fetchMock.disableNetConnect();
+});
+
+afterEach(() => {
+  fetchMock.assertNoPendingInterceptors();
+});
+
+afterAll(() => {
+  fetchMock.deactivate();
+});
+
+describe("checkUrlSafety", () => {
+  it("blocks hosts whose addresses can't be looked up", async () => {
+    fetchMock
+      .get(RESOLVER)
+      .intercept({ path: /^\/dns-query/ })
+      .reply(503, "");
+
+    expect(
+      await checkUrlSafety(resolverEnv, "https://unresolvable.example.net/"),
+    ).toBe("could not resolve unresolvable.example.net");
+  });
+
+  it("allows hosts that resolve to public addresses", async () => {
+    fetchMock
+      .get(RESOLVER)
+      .intercept({ path: /^\/dns-query/ })
+      .reply(200, { Status: 0, Answer: [{ type: 1, data: "93.184.216.34" }] })
+      .times(2);
+
+    expect(
+      await checkUrlSafety(resolverEnv, "https://public.example.net/"),
+    ).toBeNull();
+  });
+});
+
+describe("OAuth token requests", () => {
+  it("blocks a token endpoint that redirects to a metadata address", async () => {
+    fetchMock
+      .get("https://api.example.com")
+      .intercept({ path: "/oauth/token", method: "POST" })
+      .reply(307, "", {
+        headers: { Location: "http://169.254.169.254/latest/meta-data" },
+      });
+
+    const endpoint = {
+      id: crypto.randomUUID(),
+      user_id: "user-1",
+      name: "Orders",
+      type: "http",
+      url: "https://api.example.com/orders",
+      method: "GET",
+      timeout_seconds: 2,
+      expected_status_codes: "[200]",
+      auth_config: JSON.stringify({
+        type: "oauth2_client_credentials",
+        tokenUrl: "https://api.example.com/oauth/token",
+        clientId: "client",
+        clientSecret: "secret",
+      }),
+    } as Endpoint;
+
+    const result = await probeEndpoint(endpoint, {
+      timeout: 2,
+      region: "global",
+      env,
+    });
+
+    expect(result.error_category).toBe("blocked");
+    expect(result.error_message).toBe(
+      "Blocked target: 169.254.169.254 is a private or reserved address",
+    );
+  });
+});
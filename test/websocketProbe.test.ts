@@ -0,0 +1,76 @@
+import { env } from "cloudflare:test";
+import { describe, expect, inject, it } from "vitest";
+import type { Env } from "../src/index";
+import type { Endpoint } from "../src/models/types";
+import { probeWebSocket } from "../src/services/websocketProbe";
+
+const echoServerUrl = inject("echoServerUrl");
+
+// The echo server listens on loopback, which probes may only reach when
+// the operator allowlists it
+const allowlistedEnv = { ...env, PROBE_HOST_ALLOWLIST: "127.0.0.1" };
+
+function webSocketEndpoint(probeConfig: object | null = null): Endpoint {
+  return {
+    id: crypto.randomUUID(),
+    user_id: "user-1",
+    name: "Echo",
+    type: "websocket",
+    url: echoServerUrl,
+    probe_config: probeConfig && JSON.stringify(probeConfig),
+  } as Endpoint;
+}
+
+function probe(endpoint: Endpoint, probeEnv: Env = allowlistedEnv) {
+  return probeWebSocket(endpoint, {
+    timeout: 2,
+    region: "global",
+    env: probeEnv,
+  });
+}
+
+describe("probeWebSocket", () => {
+  it("succeeds on the handshake alone when nothing is sent", async () => {
+    const result = await probe(webSocketEndpoint());
+
+    expect(result.status).toBe("success");
+    expect(result.status_code).toBe(101);
+    expect(result.details?.timings?.handshakeMs).toBeGreaterThanOrEqual(0);
+    expect(result.details?.timings?.roundTripMs).toBeUndefined();
+  });
+
+  it("times the round trip of a matching reply", async () => {
+    const result = await probe(
+      webSocketEndpoint({ message: '{"op":"ping"}', expectPattern: "ping" }),
+    );
+
+    expect(result.status).toBe("success");
+    expect(result.details?.timings?.roundTripMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it("fails the assertion when replies don't match", async () => {
+    const result = await probe(
+      webSocketEndpoint({ message: "ping", expectPattern: "^pong$" }),
+    );
+
+    expect(result.status).toBe("error");
+    expect(result.error_category).toBe("assertion");
+    expect(result.error_message).toBe("No reply matched /^pong$/ (last: ping)");
+  });
+
+  it("reports a connection closed before any reply", async () => {
+    const result = await probe(
+      webSocketEndpoint({ message: "close", expectPattern: "." }),
+    );
+
+    expect(result.status).toBe("error");
+    expect(result.error_category).toBe("network");
+  });
+
+  it("blocks loopback targets that aren't allowlisted", async () => {
+    const result = await probe(webSocketEndpoint(), env);
+
+    expect(result.status).toBe("error");
+    expect(result.error_category).toBe("blocked");
+  });
+});
@@ -0,0 +1,47 @@
+import path from "node:path";
+import {
+  defineWorkersConfig,
+  readD1Migrations,
+} from "@cloudflare/vitest-pool-workers/config";
+
+// Tests run the Worker in workerd with local D1, KV and queue bindings.
+// Durable Object schedulers are left unbound so routes don't start alarms.
+export default defineWorkersConfig(async () => {
+  const migrations = await readD1Migrations(path.join(__dirname, "migrations"));
+
+  return {
+    test: {
+      include: ["test/**/*.test.ts"],
+      setupFiles: ["./test/setup.ts"],
+      globalSetup: [
+        "./test/echoServer.global.ts",
+        "./test/tcpServers.global.ts",
+      ],
+      poolOptions: {
+        workers: {
+          main: "./src/index.ts",
+          singleWorker: true,
+          miniflare: {
+            compatibilityDate: "2024-01-15",
+            compatibilityFlags: ["nodejs_compat"],
+            d1Databases: ["DB"],
+            kvNamespaces: ["STATUS_KV"],
+            queueProducers: { PROBE_QUEUE: "pulseapi-probes" },
+            bindings: {
+              ENVIRONMENT: "test",
+              API_VERSION: "v1",
+              PROBE_REGIONS: "",
+              PROBE_HOST_ALLOWLIST: "api.example.com",
+              FIREBASE_PROJECT_ID: "pulseapi-test",
+              FIREBASE_JWKS_URL: "https://jwks.test/keys",
+              // Test-only vault key (32 zero bytes, base64)
+              SECRETS_ENCRYPTION_KEY:
+                "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA=",
+              TEST_MIGRATIONS: migrations,
+            },
+          },
+        },
+      },
+    },
+  };
+});